@@ -0,0 +1,140 @@
+import { calendar_v3 } from "googleapis";
+import { TFile } from "obsidian";
+import GoogleCalendarTaskSync from "./main";
+import { debugLog } from "./logger";
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+const LINK_PATTERN = /^\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]$/;
+const FLAG_PATTERN = /\s*\(?\b(optional|required)\b\)?\s*$/i;
+
+/**
+ * Reads the attendees of a task: links to person notes (`[[People/Jane Doe]]`) resolve to the
+ * email in their frontmatter, plain email addresses are used as they are. The field may be a
+ * YAML list, comma-separated text or the JSON of Google attendees. A trailing `(optional)`
+ * marks an attendee as optional. Links without an email are skipped.
+ */
+export function parseAttendees(plugin: GoogleCalendarTaskSync, value: unknown, sourceFile?: TFile): calendar_v3.Schema$EventAttendee[] {
+  const attendees = new Map<string, calendar_v3.Schema$EventAttendee>();
+
+  for (const element of toAttendeeValues(value)) {
+    const attendee = typeof element === 'object'
+      ? parseAttendeeObject(plugin, element as Record<string, unknown>, sourceFile)
+      : parseAttendeeText(plugin, String(element), sourceFile);
+
+    if (attendee && !attendees.has(attendee.email!.toLowerCase())) {
+      attendees.set(attendee.email!.toLowerCase(), attendee);
+    }
+  }
+
+  return [...attendees.values()];
+}
+
+/**
+ * Writes attendees pulled from Google back as the note lists them: attendees with a person note
+ * as its link, others as their email address, optional ones with the `(optional)` flag.
+ */
+export function formatAttendees(plugin: GoogleCalendarTaskSync, attendees: calendar_v3.Schema$EventAttendee[] | undefined): string[] {
+  const personNotes = getPersonNotesByEmail(plugin);
+
+  return (attendees ?? [])
+    .filter(attendee => attendee.email && !attendee.resource)
+    .map(attendee => {
+      const personNote = personNotes.get(attendee.email!.toLowerCase());
+      const name = personNote ? `[[${plugin.app.metadataCache.fileToLinktext(personNote, '')}]]` : attendee.email!;
+      return attendee.optional ? `${name} (optional)` : name;
+    });
+}
+
+// Flattens YAML lists, `[[Link]]` unquoted in YAML becomes a nested list, and splits text lists
+function toAttendeeValues(value: unknown): unknown[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(element => Array.isArray(element) && element.length === 1 && typeof element[0] === 'string'
+      ? [`[[${element[0]}]]`]
+      : toAttendeeValues(element));
+  }
+
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (text.startsWith('[{') || text.startsWith('{')) {
+      try {
+        return toAttendeeValues(JSON.parse(text));
+      } catch {
+        // Not JSON, read as a text list
+      }
+    }
+    return text.split(/,(?![^[]*\]\])/).map(element => element.trim()).filter(Boolean);
+  }
+
+  return [value];
+}
+
+function parseAttendeeText(plugin: GoogleCalendarTaskSync, text: string, sourceFile?: TFile): calendar_v3.Schema$EventAttendee | undefined {
+  const flag = text.match(FLAG_PATTERN)?.[1]?.toLowerCase();
+  const target = text.replace(FLAG_PATTERN, '').trim();
+  const attendee = resolveAttendee(plugin, target, sourceFile);
+
+  if (attendee && flag === 'optional') {
+    attendee.optional = true;
+  }
+  return attendee;
+}
+
+// Google attendees like `{"email": "jane@example.com", "optional": true}`, or with a `link` instead of the email
+function parseAttendeeObject(plugin: GoogleCalendarTaskSync, value: Record<string, unknown>, sourceFile?: TFile): calendar_v3.Schema$EventAttendee | undefined {
+  const attendee = resolveAttendee(plugin, String(value.email ?? value.link ?? ''), sourceFile);
+  if (!attendee) {
+    return undefined;
+  }
+
+  if (value.optional === true || value.required === false) {
+    attendee.optional = true;
+  }
+  if (value.displayName) {
+    attendee.displayName = String(value.displayName);
+  }
+  return attendee;
+}
+
+function resolveAttendee(plugin: GoogleCalendarTaskSync, target: string, sourceFile?: TFile): calendar_v3.Schema$EventAttendee | undefined {
+  const email = target.replace(/^mailto:/i, '');
+  if (EMAIL_PATTERN.test(email)) {
+    return { email };
+  }
+
+  const link = target.match(LINK_PATTERN);
+  if (!link) {
+    debugLog(plugin, `Attendee "${target}" is neither an email address nor a link to a person note, skipped.`);
+    return undefined;
+  }
+
+  const personNote = plugin.app.metadataCache.getFirstLinkpathDest(link[1].trim(), sourceFile?.path ?? '');
+  const personEmail = personNote ? getPersonEmail(plugin, personNote) : undefined;
+  if (!personEmail) {
+    debugLog(plugin, `Person note "${link[1]}" not found or without "${plugin.settings.personEmailField}" field, attendee skipped.`);
+    return undefined;
+  }
+
+  return { email: personEmail, displayName: link[2]?.trim() || personNote!.basename };
+}
+
+// The email field of a person note, the first one if it lists several
+function getPersonEmail(plugin: GoogleCalendarTaskSync, file: TFile): string | undefined {
+  const value = plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[plugin.settings.personEmailField];
+  const email = String((Array.isArray(value) ? value[0] : value) ?? '').trim().replace(/^mailto:/i, '');
+  return EMAIL_PATTERN.test(email) ? email : undefined;
+}
+
+function getPersonNotesByEmail(plugin: GoogleCalendarTaskSync): Map<string, TFile> {
+  const personNotes = new Map<string, TFile>();
+  for (const file of plugin.app.vault.getMarkdownFiles()) {
+    const email = getPersonEmail(plugin, file);
+    if (email && !personNotes.has(email.toLowerCase())) {
+      personNotes.set(email.toLowerCase(), file);
+    }
+  }
+  return personNotes;
+}
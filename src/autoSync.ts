@@ -0,0 +1,89 @@
+import { TAbstractFile, TFile } from "obsidian";
+import GoogleCalendarTaskSync from "./main";
+import { syncGoogleCalendarWithObsidian } from "./calendarSync";
+import { findMatchingFolderPairs } from "./fileHelpers";
+import { isInlineTaskFile } from "./inlineTasks";
+import { findSyncRuleForFile } from "./dataFetchers";
+import { getActiveSyncRules } from "./syncRules";
+import { debugLog } from "./logger";
+
+let noteChangeSyncTimeout: number | undefined;
+
+/**
+ * Registers the background syncs: on startup, on an interval and after task notes change.
+ */
+export function registerAutoSync(plugin: GoogleCalendarTaskSync): void {
+  if (plugin.settings.syncOnStartup) {
+    plugin.app.workspace.onLayoutReady(() => runBackgroundSync(plugin, "startup"));
+  }
+
+  restartAutoSyncInterval(plugin);
+
+  // The vault fires `create` for every existing note while it loads, those aren't changes
+  plugin.app.workspace.onLayoutReady(() => {
+    plugin.registerEvent(plugin.app.vault.on("modify", file => scheduleNoteChangeSync(plugin, file)));
+    plugin.registerEvent(plugin.app.vault.on("create", file => scheduleNoteChangeSync(plugin, file)));
+  });
+  plugin.register(() => window.clearTimeout(noteChangeSyncTimeout));
+}
+
+/**
+ * (Re)starts the sync interval, called again whenever the interval setting changes.
+ */
+export function restartAutoSyncInterval(plugin: GoogleCalendarTaskSync): void {
+  if (plugin.autoSyncIntervalId !== null) {
+    window.clearInterval(plugin.autoSyncIntervalId);
+    plugin.autoSyncIntervalId = null;
+  }
+
+  const intervalMinutes = plugin.settings.autoSyncInterval;
+  if (intervalMinutes > 0) {
+    plugin.autoSyncIntervalId = plugin.registerInterval(
+      window.setInterval(() => runBackgroundSync(plugin, "interval"), intervalMinutes * 60 * 1000)
+    );
+    debugLog(plugin, `Background sync scheduled every ${intervalMinutes} minutes.`);
+  }
+}
+
+/**
+ * Debounces a sync after a synced note was created or modified.
+ */
+function scheduleNoteChangeSync(plugin: GoogleCalendarTaskSync, file: TAbstractFile): void {
+  // Changes written by the sync itself must not trigger another sync
+  if (!plugin.settings.syncOnNoteChange || plugin.syncInProgress) {
+    return;
+  }
+
+  if (!(file instanceof TFile) || file.extension !== "md") {
+    return;
+  }
+
+  const { taskFolderPath, searchFolderName, doneFolderName } = plugin.settings;
+  const folderPairs = findMatchingFolderPairs(plugin, plugin.app.vault, taskFolderPath, searchFolderName, doneFolderName);
+  const isTaskNote = getActiveSyncRules(plugin).length > 0
+    ? !!findSyncRuleForFile(plugin, file)
+    : Object.values(folderPairs).some(({ searchPath }) => file.path.startsWith(`${searchPath}/`));
+  if (!isTaskNote && !isInlineTaskFile(plugin, file)) {
+    return;
+  }
+
+  window.clearTimeout(noteChangeSyncTimeout);
+  noteChangeSyncTimeout = window.setTimeout(
+    () => runBackgroundSync(plugin, `change of "${file.path}"`),
+    plugin.settings.noteChangeSyncDelay * 1000
+  );
+}
+
+async function runBackgroundSync(plugin: GoogleCalendarTaskSync, reason: string): Promise<void> {
+  if (!plugin.oAuth2Client || plugin.syncInProgress) {
+    debugLog(plugin, `Background sync (${reason}) skipped.`);
+    return;
+  }
+
+  debugLog(plugin, `Background sync triggered by ${reason}.`);
+  try {
+    await syncGoogleCalendarWithObsidian(plugin, 'task', true);
+  } catch (error) {
+    console.error(`Background sync (${reason}) failed:`, error);
+  }
+}
@@ -1,28 +1,155 @@
 import GoogleCalendarTaskSync from "./main";
-import { Notice, TFile } from "obsidian";
+import { Notice } from "obsidian";
 import {
 	findMatchingFolderPairs,
-	getLogFilePath,
+	getCalendarIdForTask,
+	getSyncModeForTask,
+	getTaskListIdForTask,
+	mapYamlToGoogleTask,
 	moveTaskToFolder,
-	saveTaskDataToYaml,
+	updateTaskFrontmatter,
 } from "./fileHelpers";
-import { fetchObsidianTasks } from "./dataFetchers";
+import { fetchObsidianTasks, getChangedGoogleCalendarEvents, getGoogleCalendarEvents, ObsidianTask } from "./dataFetchers";
 import { calendar_v3, google } from "googleapis";
-import { GaxiosResponse } from 'googleapis-common';
-import {deleteEvent, createEventForTask} from "./taskAndEventOperators";
-import { saveSettings } from "./settings";
-import { mapYamlToEvent } from "./fileHelpers"
-import {debugLog, writeErrorLogs} from "./logger";
+import {
+	createGoogleTaskForTask,
+	syncTaskToGoogleTask,
+	completeGoogleTask,
+} from "./taskAndEventOperators";
+import { saveSettings, StatusAction, SyncMode } from "./settings";
+import { getChangedEventFields, getEventPatch, getOwnedEventNotePath, isOwnedEvent, mapEventToYaml, mapYamlToEvent } from "./fileHelpers"
+import {debugLog, getErrorMessage} from "./logger";
+import {
+	BatchRequest,
+	BatchResponse,
+	buildEventDeleteRequest,
+	buildEventGetRequest,
+	buildEventInsertRequest,
+	buildEventMoveRequest,
+	buildEventPatchRequest,
+	buildEventUpdateRequest,
+	executeBatch,
+	getBatchErrorMessage,
+	isApiError,
+} from "./googleBatch";
+import { ConflictModal, ConflictResolution, SyncPreviewModal } from "./obsidianModals";
+import { getTaskKey, getTaskSyncState, hashSyncPayload, SyncStateEntry, updateSyncState } from "./syncState";
+import { DeletedNote, findOrphanedSyncStates, handleDeletedNotes } from "./deletedNotes";
+import { getTimeZoneForTask } from "./timeZones";
+import { getNormalizedDateFields } from "./dateParser";
+import { fetchInlineTasks } from "./inlineTasks";
+import { getActiveSyncRules } from "./syncRules";
+import { getStatusAction, isKeptCompletion } from "./statusActions";
 import {loadAndSetTokens, refreshAccessToken} from "./oauth";
 
+export type SyncAction = 'create' | 'update' | 'pull' | 'delete' | 'complete' | 'none';
+
+// One planned change for a task, computed without writing to Google or the vault
+export interface SyncPlanItem {
+	task: ObsidianTask;
+	target: SyncMode;               // Calendar event or Google Task
+	action: SyncAction;
+	calendarId: string;             // Target calendar, or task list for Google Tasks
+	moveFromCalendarId?: string;    // Set when the event has to move to `calendarId` first
+	event?: calendar_v3.Schema$Event;
+	deletedInGoogle?: boolean;      // The event was deleted in Google, the task is completed locally
+	doneFolderPath?: string;        // Set when the note moves to its done folder or the folder of its status
+	relinked?: boolean;             // The task lost its event id and is linked to its existing event again
+}
+
+export interface SyncPlan {
+	items: SyncPlanItem[];
+	deletedNotes: DeletedNote[];        // Linked notes that are gone from the vault
+	errorLogs: string[];
+	syncTokens: Record<string, string>; // Sync tokens to store once the plan is applied
+	heldCalendarIds: Set<string>;       // Calendars with unapplied changes, their old sync token is kept
+	isBackgroundSync: boolean;          // Background syncs only show notices for errors
+}
+
 
 export async function syncGoogleCalendarWithObsidian(
 	plugin: GoogleCalendarTaskSync,
 	tag: string = 'task',
-	isQuickSync: boolean = false
+	isBackgroundSync: boolean = false
 ) {
 	debugLog(plugin, "Sync function called with plugin.");
 
+	if (plugin.syncInProgress) {
+		notify(plugin, "A sync is already running.", isBackgroundSync);
+		return;
+	}
+
+	plugin.syncInProgress = true;
+	try {
+		const plan = await buildSyncPlan(plugin, tag, isBackgroundSync);
+		if (!plan) {
+			return;
+		}
+
+		await applySyncPlan(plugin, plan);
+	} catch (error) {
+		// Auto-syncs aren't awaited by anyone, so failures are reported here instead of rejecting
+		const message = getErrorMessage(error);
+		console.error(`Sync failed: ${message}`);
+		new Notice(`Sync failed: ${message}`);
+	} finally {
+		plugin.syncInProgress = false;
+	}
+}
+
+// Computes the sync plan and lets the user review and uncheck items before anything is written
+export async function previewSyncGoogleCalendarWithObsidian(
+	plugin: GoogleCalendarTaskSync,
+	tag: string = 'task'
+) {
+	if (plugin.syncInProgress) {
+		new Notice("A sync is already running.");
+		return;
+	}
+
+	plugin.syncInProgress = true;
+	let plan: SyncPlan | null;
+	try {
+		plan = await buildSyncPlan(plugin, tag);
+	} catch (error) {
+		console.error(`Sync preview failed: ${getErrorMessage(error)}`);
+		new Notice(`Sync preview failed: ${getErrorMessage(error)}`);
+		return;
+	} finally {
+		plugin.syncInProgress = false;
+	}
+	if (!plan) {
+		return;
+	}
+
+	new SyncPreviewModal(plugin.app, plan, plugin.settings.deletedNoteAction, async selectedPlan => {
+		// Another sync may have started while the preview was open
+		if (plugin.syncInProgress) {
+			new Notice("A sync is already running.");
+			return;
+		}
+
+		plugin.syncInProgress = true;
+		try {
+			await applySyncPlan(plugin, selectedPlan);
+		} catch (error) {
+			// The modal doesn't await the callback, failures are reported here
+			console.error(`Sync failed: ${getErrorMessage(error)}`);
+			new Notice(`Sync failed: ${getErrorMessage(error)}`);
+		} finally {
+			plugin.syncInProgress = false;
+		}
+	}).open();
+}
+
+// Collects the tasks to sync and decides per task what would change. Only Google's read APIs are called.
+// The sync is incremental: notes count as changed when the payload they map to differs from the last
+// pushed one, events when Google reports them through the sync token with a new etag.
+export async function buildSyncPlan(
+	plugin: GoogleCalendarTaskSync,
+	tag: string = 'task',
+	isBackgroundSync: boolean = false
+): Promise<SyncPlan | null> {
 	// Check if OAuth2 client is initialized
 	if (!plugin.oAuth2Client) {
 		debugLog(plugin, "OAuth2 client not initialized. Loading tokens...");
@@ -31,12 +158,12 @@ export async function syncGoogleCalendarWithObsidian(
 
 	if (!plugin.oAuth2Client) {
 		new Notice("Please authenticate with Google Calendar first.");
-		return;
+		return null;
 	}
 
 	if (!plugin.settings.encTokenData) {
 		new Notice("Please authenticate with Google Calendar first.");
-		return;
+		return null;
 	}
 
 	// Check if the 'status' field is set in the plugin settings
@@ -61,135 +188,586 @@ export async function syncGoogleCalendarWithObsidian(
 		doneFolderName
 	);
 
-	if (Object.keys(folderPairs).length === 0) {
-		new Notice(`No matching folder pairs for "${searchFolderName}" and "${doneFolderName}" found in "${taskRootFolder}".`);
-		return;
+	if (Object.keys(folderPairs).length === 0 && !plugin.settings.syncInlineTasks && getActiveSyncRules(plugin).length === 0) {
+		notify(plugin, `No matching folder pairs for "${searchFolderName}" and "${doneFolderName}" found in "${taskRootFolder}".`, isBackgroundSync);
+		return null;
 	}
 
-	// Retrieve tasks from `searchFolders`
-	const tasks = await fetchObsidianTasks(plugin, tag);
-	const filteredTasks = tasks.filter(task =>
-		Object.values(folderPairs).some(({ searchPath }) => task.file.path.startsWith(searchPath))
-	);
+	// Retrieve the tasks selected by the sync rules, or from `searchFolders` without rules
+	const filteredTasks = [...await fetchObsidianTasks(plugin, tag), ...await fetchInlineTasks(plugin)];
 
-	if (filteredTasks.length === 0) {
-		new Notice("No tasks found to sync.");
-		return;
+	// Also catch notes deleted while the plugin wasn't running
+	const deletedNotes = findOrphanedSyncStates(plugin);
+
+	if (filteredTasks.length === 0 && deletedNotes.length === 0) {
+		notify(plugin, "No tasks found to sync.", isBackgroundSync);
+		return null;
 	}
 
-	const calendar = google.calendar({ version: "v3", auth: plugin.oAuth2Client });
-	let processedCount = 0;
-	const errorLogs: string[] = [];
+	const googleTasks = google.tasks({ version: "v1", auth: plugin.oAuth2Client });
+	const plan: SyncPlan = { items: [], deletedNotes, errorLogs: [], syncTokens: {}, heldCalendarIds: new Set(), isBackgroundSync };
 
 	const lastSyncDate = plugin.settings.lastSyncDate ? new Date(plugin.settings.lastSyncDate) : null;
 
-	const tasksToProcess = isQuickSync && lastSyncDate
-		? filteredTasks.filter(task => {
-			const createdTime = task.file.stat.ctime;
-			const modifiedTime = task.file.stat.mtime;
-			return createdTime > lastSyncDate.getTime() || modifiedTime > lastSyncDate.getTime();
-		})
-		: filteredTasks;
-
-	const totalTasks = tasksToProcess.length;
-	if (totalTasks === 0) {
-		new Notice("No tasks to sync after filtering.");
-		return;
+	const twoWaySync = plugin.settings.twoWaySync;
+
+	// Fetch only the events Google reports as changed since the last sync
+	const changedEvents = new Map<string, calendar_v3.Schema$Event>();
+	const calendarIds = new Set<string>(filteredTasks
+		.map(task => getTaskSyncState(plugin, task))
+		.filter(state => state.eventId)
+		.map(state => state.calendarId || "primary"));
+
+	for (const calendarId of calendarIds) {
+		const { events, nextSyncToken } = await getChangedGoogleCalendarEvents(plugin, calendarId);
+		events.forEach(event => event.id && changedEvents.set(event.id, event));
+		if (nextSyncToken) {
+			plan.syncTokens[calendarId] = nextSyncToken;
+		}
+	}
+
+	// Hash what each note maps to, notes whose hash equals the last pushed one haven't changed
+	const changedNotes = new Set<ObsidianTask>();
+	const tasksToProcess: ObsidianTask[] = [];
+	for (const task of filteredTasks) {
+		try {
+			const state = getTaskSyncState(plugin, task);
+			const isEventTask = getSyncModeForTask(plugin, task, folderPairs) === "event";
+			const payload = isEventTask
+				? await mapYamlToEvent(plugin, task.data, task.file, task.inline)
+				: await mapYamlToGoogleTask(plugin, task.data, task.file, task.inline);
+
+			if (hashSyncPayload(payload) !== state.contentHash) {
+				changedNotes.add(task);
+			}
+
+			// Unchanged notes are only checked when their event changed, they are done or their calendar changed
+			const needsCheck = changedNotes.has(task)
+				|| isTaskDone(plugin, task)
+				|| getStatusFolderPath(task, getStatusAction(plugin, task.data)) !== undefined
+				|| (isEventTask && !!state.eventId && changedEvents.has(state.eventId))
+				|| (isEventTask && !!state.eventId && (state.calendarId || "primary") !== getCalendarIdForTask(plugin, task, folderPairs));
+			if (needsCheck) {
+				tasksToProcess.push(task);
+			}
+		} catch (error) {
+			plan.errorLogs.push(`Error processing task "${getTaskKey(task)}": ${getErrorMessage(error)}`);
+			console.error(`Error processing task "${getTaskKey(task)}": ${getErrorMessage(error)}`);
+			plan.heldCalendarIds.add(getTaskSyncState(plugin, task).calendarId || "primary");
+		}
 	}
 
-	const progressNotice = new Notice(`Processing tasks: 0 / ${totalTasks} tasks processed`, 0);
+	// Retrieve the events of linked tasks in batches, unless Google already reported them as changed
+	const tasksToFetch = tasksToProcess.filter(task => {
+		const { eventId } = getTaskSyncState(plugin, task);
+		return eventId && !changedEvents.has(eventId) && getSyncModeForTask(plugin, task, folderPairs) === "event";
+	});
+	const fetchedEvents = new Map<ObsidianTask, calendar_v3.Schema$Event>();
+	const fetchErrors = new Map<ObsidianTask, string>();
+
+	const getResponses = await executeBatch(plugin, tasksToFetch.map(task =>
+		buildEventGetRequest(getTaskSyncState(plugin, task).calendarId || "primary", getTaskSyncState(plugin, task).eventId!)));
+	getResponses.forEach((response, index) => {
+		const task = tasksToFetch[index];
+		// Events kept as cancelled by the status of their note still belong to it
+		if (response.status === 200 && (response.body?.status !== "cancelled" || getStatusAction(plugin, task.data)?.action === "cancel")) {
+			fetchedEvents.set(task, response.body);
+		} else if (response.status === 200 || response.status === 404 || response.status === 410) {
+			debugLog(plugin, `No matching event found for "${task.name}". A new event will be created.`);
+		} else {
+			fetchErrors.set(task, getBatchErrorMessage(response));
+		}
+	});
 
 	for (const task of tasksToProcess) {
 		try {
-			debugLog(plugin, `Processing task "${task.name}" with googleEventId: ${task.data.googleEventId}`);
-
-			let matchingEvent: GaxiosResponse<calendar_v3.Schema$Event> | null = null;
-
-			// Retrieve existing Google event if googleEventId is set
-			if (task.data.googleEventId) {
-				try {
-					matchingEvent = await calendar.events.get({
-						calendarId: "primary",
-						eventId: task.data.googleEventId,
-					});
-				} catch (error) {
-					if (error.code === 404) {
-						debugLog(plugin, `No matching event found for "${task.name}". A new event will be created.`);
-					} else {
-						throw error;
+			const state = getTaskSyncState(plugin, task);
+			debugLog(plugin, `Planning task "${task.name}" with googleEventId: ${state.eventId}`);
+
+			const statusAction = getStatusAction(plugin, task.data);
+			if (statusAction?.action === "none") {
+				debugLog(plugin, `Status "${statusAction.status}" of task "${task.name}" is not synced.`);
+				continue;
+			}
+
+			const isDone = statusAction?.action === "delete";
+			const isCancelled = statusAction?.action === "cancel";
+			const keepCompleted = isKeptCompletion(plugin, task.data);
+			const doneFolderPath = isDone ? getDoneFolderPath(task, folderPairs) : getStatusFolderPath(task, statusAction);
+
+			// Notes synced as Google Tasks don't have a calendar event
+			if (getSyncModeForTask(plugin, task, folderPairs) === "task") {
+				const taskListId = state.taskListId || getTaskListIdForTask(plugin, task, folderPairs);
+
+				let googleTaskExists = false;
+				if (state.taskId) {
+					try {
+						await googleTasks.tasks.get({ tasklist: taskListId, task: state.taskId });
+						googleTaskExists = true;
+					} catch (error) {
+						if (isApiError(error, 404)) {
+							debugLog(plugin, `No matching Google Task found for "${task.name}". A new task will be created.`);
+						} else {
+							throw error;
+						}
 					}
 				}
+
+				const action: SyncAction = isDone
+					? (googleTaskExists ? "complete" : "none")
+					: (googleTaskExists ? "update" : "create");
+				plan.items.push({ task, target: "task", action, calendarId: taskListId, doneFolderPath });
+				continue;
+			}
+
+			// The calendar the event currently lives in and the one the task maps to now
+			const currentCalendarId = state.calendarId || "primary";
+			const targetCalendarId = keepCompleted && plugin.settings.doneCalendarId
+				? plugin.settings.doneCalendarId
+				: getCalendarIdForTask(plugin, task, folderPairs);
+
+			if (fetchErrors.has(task)) {
+				throw new Error(`Error retrieving event ${state.eventId}: ${fetchErrors.get(task)}`);
+			}
+
+			const changedEvent = state.eventId ? changedEvents.get(state.eventId) : undefined;
+			const matchingEvent = changedEvent?.status === "cancelled" && !isCancelled ? null : changedEvent ?? fetchedEvents.get(task) ?? null;
+
+			// In one-way mode an event deleted in Google is created again from its note
+			if (twoWaySync && changedEvent?.status === "cancelled" && !isCancelled) {
+				// The event was deleted in Google, which completes the task like the delete status does
+				debugLog(plugin, `Event of task "${task.name}" was deleted in Google Calendar.`);
+				plan.items.push({
+					task,
+					target: "event",
+					action: "delete",
+					calendarId: currentCalendarId,
+					deletedInGoogle: true,
+					doneFolderPath: getDoneFolderPath(task, folderPairs),
+				});
+				continue;
 			}
 
 			// Check if task status indicates it should be deleted
-			debugLog(plugin, `Task status: ${task.data[plugin.settings.fieldMappings.status]}, Delete status: ${plugin.settings.deleteStatus}`);
-			if (task.data[plugin.settings.fieldMappings.status]?.trim() === plugin.settings.deleteStatus.trim()) {
-
-				// Delete event and move task to the corresponding `doneFolder`
-				if (task.data.googleEventId) {
-					await deleteEvent(plugin, task.data.googleEventId);
-					delete task.data.googleEventId; // Properly remove googleEventId field
-					await saveTaskDataToYaml(plugin, task.file, task.data); // Update YAML without googleEventId
-				}
+			debugLog(plugin, `Task status: ${task.data[plugin.settings.fieldMappings.status]}, Status action: ${statusAction?.action ?? "sync"}`);
+			// The completion mode keeps the event and updates it below, tasks never synced get no event
+			if (isDone && (!keepCompleted || !state.eventId)) {
+				plan.items.push({
+					task,
+					target: "event",
+					action: state.eventId ? "delete" : "none",
+					calendarId: currentCalendarId,
+					event: matchingEvent ?? undefined,
+					doneFolderPath,
+				});
+				continue;
+			}
 
-				await saveTaskDataToYaml(plugin, task.file, task.data);
+			if (!matchingEvent) {
+				plan.items.push({ task, target: "event", action: "create", calendarId: targetCalendarId, doneFolderPath });
+				continue;
+			}
 
-				// Find the specific `doneFolder` for the task’s `searchFolder`
-				const parentPath = Object.keys(folderPairs).find(parent => task.file.path.startsWith(folderPairs[parent].searchPath));
-				if (parentPath) {
-					await moveTaskToFolder(plugin, task.file, folderPairs[parentPath].donePath);
-					debugLog(plugin, `Task "${task.name}" moved to "${doneFolderName}" and event deleted.`);
+			// Move the event if the calendar mapping of the task has changed
+			const moveFromCalendarId = currentCalendarId !== targetCalendarId ? currentCalendarId : undefined;
+			let action: SyncAction = "none";
+
+			const eventChanged = isEventChangedSinceSync(matchingEvent, state, lastSyncDate);
+			if (twoWaySync && eventChanged) {
+				// Both sides changed since the last sync: the conflict policy decides which one wins
+				const resolution = changedNotes.has(task)
+					? await resolveConflict(plugin, task, matchingEvent, isBackgroundSync)
+					: "google";
+
+				if (resolution === "google") {
+					action = "pull";
+				} else if (resolution === "note") {
+					action = "update";
 				} else {
-					console.warn(`Matching done folder not found for task "${task.name}".`);
+					// The skipped change has to be reported by the next incremental sync again
+					debugLog(plugin, `Conflict for task "${task.name}" skipped.`);
+					plan.heldCalendarIds.add(currentCalendarId);
 				}
-				continue;
+			} else if (changedNotes.has(task) || eventChanged) {
+				// In one-way mode the note also overwrites changes made in Google
+				action = "update";
+			}
+
+			// Google rejects changes to invitations from other organizers, their changes are only pulled
+			if (action === "update" && matchingEvent.organizer && !matchingEvent.organizer.self) {
+				debugLog(plugin, `Event of task "${task.name}" is organized by ${matchingEvent.organizer.email}, note changes aren't pushed.`);
+				action = "none";
+			}
+
+			plan.items.push({ task, target: "event", action, calendarId: targetCalendarId, moveFromCalendarId, event: matchingEvent, doneFolderPath });
+		} catch (error) {
+			plan.errorLogs.push(`Error processing task "${getTaskKey(task)}": ${getErrorMessage(error)}`);
+			console.error(`Error processing task "${getTaskKey(task)}": ${getErrorMessage(error)}`);
+			plan.heldCalendarIds.add(getTaskSyncState(plugin, task).calendarId || "primary");
+		}
+	}
+
+	// Tasks that lost their event id are linked to the event the plugin already created for them
+	const createItems = plan.items.filter(item => item.target === "event" && item.action === "create");
+	if (createItems.length > 0) {
+		const ownedEvents = new Map<string, calendar_v3.Schema$Event>();
+		for (const calendarId of new Set(createItems.map(item => item.calendarId))) {
+			for (const event of await getGoogleCalendarEvents(plugin, calendarId, true)) {
+				ownedEvents.set(`${calendarId}|${getOwnedEventNotePath(event)}`, event);
+			}
+		}
+
+		createItems.forEach(item => {
+			const ownedEvent = ownedEvents.get(`${item.calendarId}|${getTaskKey(item.task)}`);
+			if (ownedEvent) {
+				debugLog(plugin, `Task "${item.task.name}" is linked to its existing event ${ownedEvent.id} again.`);
+				Object.assign(item, { action: "update", event: ownedEvent, relinked: true });
+			}
+		});
+	}
+
+	return plan;
+}
+
+// Writes the planned changes to Google and the vault. Event changes are sent as batch requests
+// in two rounds (calendar moves first, then inserts, updates and deletes), followed by the
+// per-task follow-up in the vault.
+export async function applySyncPlan(plugin: GoogleCalendarTaskSync, plan: SyncPlan) {
+	const itemsToApply = plan.items.filter(item => item.action !== "none" || item.moveFromCalendarId || item.doneFolderPath);
+	const totalTasks = itemsToApply.length;
+	const errorLogs = [...plan.errorLogs];
+	const failedItems = new Set<SyncPlanItem>();
+	let processedCount = 0;
+
+	const recordError = (item: SyncPlanItem, message: string) => {
+		failedItems.add(item);
+		errorLogs.push(`Error processing task "${getTaskKey(item.task)}": ${message}`);
+		console.error(`Error processing task "${getTaskKey(item.task)}": ${message}`);
+	};
+
+	const progressNotice = plan.isBackgroundSync ? null : new Notice(`Processing tasks: 0 / ${totalTasks} tasks processed`, 0);
+
+	// Move events whose calendar mapping changed
+	const moveItems = itemsToApply.filter(item => item.target === "event" && item.moveFromCalendarId && item.event);
+	const moveResponses = await executeBatch(plugin, moveItems.map(item =>
+		buildEventMoveRequest(item.moveFromCalendarId!, item.event!.id!, item.calendarId)));
+	moveResponses.forEach((response, index) => {
+		const item = moveItems[index];
+		if (response.status >= 400) {
+			recordError(item, `Failed to move event to calendar "${item.calendarId}": ${getBatchErrorMessage(response)}`);
+			return;
+		}
+		item.event = response.body;
+		updateSyncState(plugin, getTaskKey(item.task), { calendarId: item.calendarId, etag: response.body.etag! });
+		debugLog(plugin, `Moved event of task "${item.task.name}" from "${item.moveFromCalendarId}" to "${item.calendarId}"`);
+	});
+
+	// Send inserts, updates and deletes of events
+	const writeItems: SyncPlanItem[] = [];
+	const writeRequests: BatchRequest[] = [];
+	for (const item of itemsToApply) {
+		if (item.target !== "event" || failedItems.has(item)) {
+			continue;
+		}
+		try {
+			const request = await buildEventWriteRequest(plugin, item);
+			if (request) {
+				writeItems.push(item);
+				writeRequests.push(request);
 			}
+		} catch (error) {
+			recordError(item, getErrorMessage(error));
+		}
+	}
+
+	const writeResponses = new Map<SyncPlanItem, BatchResponse>();
+	(await executeBatch(plugin, writeRequests)).forEach((response, index) => {
+		const item = writeItems[index];
+		// A delete of an event that is already gone is fine
+		if (response.status >= 400 && !(item.action === "delete" && (response.status === 404 || response.status === 410))) {
+			recordError(item, `Failed to ${item.action} event: ${getBatchErrorMessage(response)}`);
+			return;
+		}
+		writeResponses.set(item, response);
+	});
 
-			// Create or update event if task is not marked with deleteStatus
-			if (matchingEvent) {
-				await syncTaskToEvent(plugin, task, matchingEvent.data);
-			} else {
-				await createEventForTask(plugin, task);
+	// Write the results back into the vault
+	for (const item of itemsToApply) {
+		try {
+			if (!failedItems.has(item)) {
+				await finishSyncPlanItem(plugin, item, writeResponses.get(item));
 			}
+		} catch (error) {
+			recordError(item, getErrorMessage(error));
+		}
+		processedCount++;
+		progressNotice?.setMessage(`Processing tasks: ${processedCount} / ${totalTasks} tasks processed`);
+	}
 
-			processedCount++;
-			progressNotice.setMessage(`Processing tasks: ${processedCount} / ${totalTasks} tasks processed`);
+	// Apply the deleted-note action to the events of notes that are gone
+	if (plan.deletedNotes.length > 0) {
+		try {
+			errorLogs.push(...await handleDeletedNotes(plugin, plan.deletedNotes));
 		} catch (error) {
-			processedCount++;
-			progressNotice.setMessage(`Processing tasks: ${processedCount} / ${totalTasks} tasks processed`);
-			errorLogs.push(`Error processing task "${task.file.path}": ${error.message}`);
-			console.error(`Error processing task "${task.file.path}": ${error.message}`);
+			errorLogs.push(`Error handling deleted notes: ${getErrorMessage(error)}`);
 		}
 	}
 
-	progressNotice.setMessage(`Successfully processed ${totalTasks} tasks.`);
-	setTimeout(() => progressNotice.hide(), 3000);
+	progressNotice?.setMessage(`Successfully processed ${totalTasks} tasks.`);
+	setTimeout(() => progressNotice?.hide(), 3000);
 
 	if (errorLogs.length > 0) {
 		new Notice("Sync completed with errors. Check console for details.");
 		console.error("Error logs:", errorLogs);
 	} else {
-		new Notice("Sync completed successfully.");
+		notify(plugin, "Sync completed successfully.", plan.isBackgroundSync);
 	}
 
-	// Update the last sync date
+	// Update the last sync date and the sync tokens of the calendars whose changes were all applied,
+	// the others keep their token so Google reports the unapplied changes again
+	const heldCalendarIds = new Set([...plan.heldCalendarIds, ...[...failedItems].flatMap(getItemCalendarIds)]);
+	const syncTokens = Object.fromEntries(Object.entries(plan.syncTokens).filter(([calendarId]) => !heldCalendarIds.has(calendarId)));
+	if (heldCalendarIds.size > 0) {
+		debugLog(plugin, `Sync tokens of calendars [${[...heldCalendarIds].join(', ')}] kept for unapplied changes.`);
+	}
 	plugin.settings.lastSyncDate = new Date().toISOString();
+	plugin.settings.syncTokens = { ...plugin.settings.syncTokens, ...syncTokens };
 	await saveSettings(plugin, plugin.settings);
 }
 
+// Calendars whose incremental changes the item covers
+export function getItemCalendarIds(item: SyncPlanItem): string[] {
+	if (item.target !== "event") {
+		return [];
+	}
+	return item.moveFromCalendarId ? [item.calendarId, item.moveFromCalendarId] : [item.calendarId];
+}
+
+// Builds the batch request that writes the planned event change, if the item needs one
+async function buildEventWriteRequest(plugin: GoogleCalendarTaskSync, item: SyncPlanItem): Promise<BatchRequest | null> {
+	const { task } = item;
 
-export async function syncTaskToEvent(plugin: GoogleCalendarTaskSync, task: any, event: calendar_v3.Schema$Event) {
-	const calendar = google.calendar({ version: 'v3', auth: plugin.oAuth2Client });
-	try {
-		const updatedEvent = await mapYamlToEvent(plugin, task.data, task.file);
-		updatedEvent.id = event.id;  // Ensure we are updating the same event by ID
+	switch (item.action) {
+		case "create": {
+			const newEvent = await mapYamlToEvent(plugin, task.data, task.file, task.inline);
+			delete newEvent.id;  // A stale id of a deleted event would make the insert fail
+			return buildEventInsertRequest(item.calendarId, newEvent, plugin.settings.sendUpdates);
+		}
+		case "update": {
+			const updatedEvent = await mapYamlToEvent(plugin, task.data, task.file, task.inline);
+			updatedEvent.id = item.event!.id;  // Ensure we are updating the same event by ID
+
+			// Events the plugin didn't create, like imported ones, are patched and never marked as owned
+			if (!isOwnedEvent(item.event!)) {
+				delete updatedEvent.extendedProperties;
+				return buildEventPatchRequest(item.calendarId, item.event!.id!, getEventPatch(updatedEvent, item.event!), plugin.settings.sendUpdates);
+			}
+
+			// A full update of a recurring event drops its moved or changed occurrences, a patch of
+			// the changed fields keeps them as long as the start and the rule stay the same
+			if (updatedEvent.recurrence || item.event!.recurrence) {
+				return buildEventPatchRequest(item.calendarId, item.event!.id!, getEventPatch(updatedEvent, item.event!), plugin.settings.sendUpdates);
+			}
+			return buildEventUpdateRequest(item.calendarId, item.event!.id!, updatedEvent, plugin.settings.sendUpdates);
+		}
+		case "delete": {
+			// Nothing to delete if Google already did
+			const { eventId } = getTaskSyncState(plugin, task);
+			return !item.deletedInGoogle && eventId
+				? buildEventDeleteRequest(item.calendarId, eventId, plugin.settings.sendUpdates)
+				: null;
+		}
+		default:
+			return null;
+	}
+}
 
-		await calendar.events.update({
-			calendarId: 'primary',
-			eventId: event.id!,
-			resource: updatedEvent,
+// Applies the vault side of a planned change once its Google request went through
+async function finishSyncPlanItem(plugin: GoogleCalendarTaskSync, item: SyncPlanItem, response?: BatchResponse) {
+	const { task } = item;
+
+	// Keep the new calendar of a moved event in the task
+	if (item.target === "event" && item.moveFromCalendarId) {
+		await updateTaskFrontmatter(plugin, task, { googleCalendarId: item.calendarId });
+	}
+
+	if (item.target === "task") {
+		if (item.action === "complete") {
+			await completeGoogleTask(plugin, getTaskSyncState(plugin, task).taskId!, item.calendarId);
+			updateSyncState(plugin, getTaskKey(task), { lastSynced: new Date().toISOString() });
+		} else if (item.action === "update") {
+			await syncTaskToGoogleTask(plugin, task, item.calendarId);
+		} else if (item.action === "create") {
+			await createGoogleTaskForTask(plugin, task, item.calendarId);
+		}
+	} else if (item.action === "delete") {
+		updateSyncState(plugin, getTaskKey(task), {
+			eventId: undefined,
+			calendarId: undefined,
+			etag: undefined,
+			contentHash: undefined,
+			lastSynced: new Date().toISOString(),
+		});
+
+		// Remove the link from the task, a task whose event was deleted in Google is completed
+		await updateTaskFrontmatter(plugin, task, {
+			googleEventId: undefined,
+			googleCalendarId: undefined,
+			...(item.deletedInGoogle ? { [plugin.settings.fieldMappings.status]: plugin.settings.deleteStatus } : {}),
+		});
+	} else if (item.action === "create") {
+		// Speichere die Event-ID zurück in die YAML-Frontmatter des Tasks
+		updateSyncState(plugin, getTaskKey(task), {
+			eventId: response!.body.id!,
+			calendarId: item.calendarId,
+			etag: response!.body.etag!,
+			lastSynced: new Date().toISOString(),
+		});
+		await updateTaskFrontmatter(plugin, task, { googleEventId: response!.body.id, googleCalendarId: item.calendarId });
+	} else if (item.action === "update") {
+		updateSyncState(plugin, getTaskKey(task), {
+			eventId: item.event!.id!,
+			calendarId: item.calendarId,
+			etag: response!.body.etag!,
+			lastSynced: new Date().toISOString(),
+		});
+
+		if (item.relinked) {
+			await updateTaskFrontmatter(plugin, task, { googleEventId: item.event!.id, googleCalendarId: item.calendarId });
+		}
+	} else if (item.action === "pull") {
+		const pulledFields = await pullEventChangesToTask(plugin, task, item.event!);
+		updateSyncState(plugin, getTaskKey(task), {
+			etag: item.event!.etag!,
+			lastSynced: new Date().toISOString(),
 		});
+		debugLog(plugin, `Pulled fields [${pulledFields.join(', ')}] from Google into task "${task.name}".`);
+	}
+
+	// Write dates typed in natural language back as the ISO values they were synced with
+	if (plugin.settings.normalizeDates && (item.action === "create" || item.action === "update")) {
+		const normalizedFields = getNormalizedDateFields(plugin, task.data);
+		if (Object.keys(normalizedFields).length > 0) {
+			await updateTaskFrontmatter(plugin, task, normalizedFields);
+		}
+	}
+
+	// Hash the note as the sync left it, so the ids and pulled fields written back don't count as a change
+	if (item.target === "event" && getTaskSyncState(plugin, task).eventId) {
+		updateSyncState(plugin, getTaskKey(task), { contentHash: hashSyncPayload(await mapYamlToEvent(plugin, task.data, task.file, task.inline)) });
+	}
+
+	if (item.doneFolderPath) {
+		await moveTaskToFolder(plugin, task.file, item.doneFolderPath);
+		debugLog(plugin, `Task "${task.name}" moved to "${item.doneFolderPath}".`);
+	}
+}
+
+
+// Writes the fields changed in Google back into the task note and returns the changed field mappings
+export async function pullEventChangesToTask(plugin: GoogleCalendarTaskSync, task: ObsidianTask, event: calendar_v3.Schema$Event): Promise<string[]> {
+	try {
+		const localEvent = await mapYamlToEvent(plugin, task.data, task.file, task.inline);
+		const changedFields = getChangedEventFields(plugin, localEvent, event, task.file);
+
+		if (changedFields.length === 0) {
+			return [];
+		}
+
+		const timeZone = getTimeZoneForTask(plugin, task.data);
+		await updateTaskFrontmatter(plugin, task, mapEventToYaml(plugin, event, changedFields, timeZone));
+
+		return changedFields;
 	} catch (error) {
-		throw new Error(`Error updating event for task ${task.file.basename}: ${error.message}`);
+		throw new Error(`Error pulling event changes into task ${task.file.basename}: ${getErrorMessage(error)}`);
+	}
+}
+
+// Finds the `doneFolder` that belongs to the task's `searchFolder`
+function getDoneFolderPath(
+	task: ObsidianTask,
+	folderPairs: Record<string, { searchPath: string; donePath: string }>
+): string | undefined {
+	// Inline tasks stay in their note, only the box is checked
+	if (task.inline) {
+		return undefined;
+	}
+
+	const parentPath = Object.keys(folderPairs).find(parent => task.file.path.startsWith(folderPairs[parent].searchPath));
+	if (!parentPath) {
+		// Notes selected by a sync rule may live anywhere and stay where they are
+		if (task.rule) {
+			return undefined;
+		}
+		console.warn(`Matching done folder not found for task "${task.name}".`);
+		return undefined;
+	}
+	return folderPairs[parentPath].donePath;
+}
+
+// Decides which side wins when both the note and its event changed since the last sync
+async function resolveConflict(plugin: GoogleCalendarTaskSync, task: ObsidianTask, event: calendar_v3.Schema$Event, isBackgroundSync: boolean): Promise<ConflictResolution> {
+	const localEvent = await mapYamlToEvent(plugin, task.data, task.file, task.inline);
+	const changedFields = getChangedEventFields(plugin, localEvent, event, task.file);
+
+	// Both sides changed, but not in any synced field
+	if (changedFields.length === 0) {
+		return "note";
+	}
+
+	debugLog(plugin, `Conflict for task "${task.name}" in fields [${changedFields.join(', ')}].`);
+
+	switch (plugin.settings.conflictPolicy) {
+		case "google":
+			return "google";
+		case "newest":
+			return new Date(event.updated!).getTime() > task.file.stat.mtime ? "google" : "note";
+		case "ask": {
+			// Nobody may be there to answer during timer and on-change syncs, the next manual sync asks
+			if (isBackgroundSync) {
+				return "skip";
+			}
+
+			const mappings = plugin.settings.fieldMappings;
+			const googleValues = mapEventToYaml(plugin, event, changedFields, getTimeZoneForTask(plugin, task.data));
+			const fieldDiffs = changedFields.map(field => ({
+				field: mappings[field]!,
+				noteValue: String(task.data[mappings[field]!] ?? ""),
+				googleValue: String(googleValues[mappings[field]!] ?? ""),
+			}));
+			return ConflictModal.ask(plugin.app, task.name, fieldDiffs);
+		}
+		default:
+			return "note";
+	}
+}
+
+// Shows a notice, or only logs it for background syncs
+function notify(plugin: GoogleCalendarTaskSync, message: string, isBackgroundSync: boolean) {
+	if (isBackgroundSync) {
+		debugLog(plugin, message);
+	} else {
+		new Notice(message);
+	}
+}
+
+function isTaskDone(plugin: GoogleCalendarTaskSync, task: ObsidianTask): boolean {
+	return getStatusAction(plugin, task.data)?.action === "delete";
+}
+
+// The folder a `move` status action moves the note to, unless it is already there
+function getStatusFolderPath(task: ObsidianTask, statusAction: StatusAction | undefined): string | undefined {
+	const folderPath = statusAction?.action === "move" ? statusAction.value?.trim().replace(/^\/+|\/+$/g, "") : undefined;
+	if (!folderPath || task.inline || task.file.parent?.path === folderPath) {
+		return undefined;
+	}
+	return folderPath;
+}
+
+// Compares the etag recorded at the last sync, notes synced before the state index fall back to the last sync date
+function isEventChangedSinceSync(event: calendar_v3.Schema$Event, state: SyncStateEntry, lastSyncDate: Date | null): boolean {
+	if (state.etag) {
+		return event.etag !== state.etag;
 	}
+	return !!lastSyncDate && !!event.updated && new Date(event.updated).getTime() > lastSyncDate.getTime();
 }
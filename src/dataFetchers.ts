@@ -2,13 +2,36 @@ import * as fs from 'fs';
 import * as path from 'path';
 import GoogleCalendarTaskSync from "./main";
 import { calendar_v3, google } from "googleapis";
-import {Notice} from "obsidian";
-import {findMatchingFolderPairs} from "./fileHelpers";
-import {debugLog} from "./logger";
+import {FrontMatterCache, Notice, TFile} from "obsidian";
+import {findMatchingFolderPairs, OWNED_EVENT_PROPERTY} from "./fileHelpers";
+import {debugLog, getErrorMessage} from "./logger";
+import {isApiError} from "./googleBatch";
+import {SyncRule} from "./settings";
+import {applyRuleMappings, compileQuery, getActiveSyncRules} from "./syncRules";
+import {InlineTask} from "./inlineTasks";
 
+// Values of a task under the field names: the note's frontmatter, or the values read from an inline task's line
+export type TaskData = FrontMatterCache;
 
-export async function fetchObsidianTasks(plugin: GoogleCalendarTaskSync, tag: string): Promise<any[]> {
-    const tasks: any[] = [];
+// A note, or a checklist line of a note, to sync
+export interface ObsidianTask {
+    name: string;
+    data: TaskData;
+    file: TFile;
+    rule?: SyncRule;            // Sync rule that matched the note
+    inline?: InlineTask;        // Set for checklist lines
+}
+
+
+// Collects the notes to sync: the notes matched by the sync rules (the first matching rule wins),
+// or without rules the notes with the tag in their frontmatter inside the search folders
+export async function fetchObsidianTasks(plugin: GoogleCalendarTaskSync, tag: string): Promise<ObsidianTask[]> {
+    const rules = getActiveSyncRules(plugin);
+    if (rules.length > 0) {
+        return fetchTasksByRules(plugin, rules);
+    }
+
+    const tasks: ObsidianTask[] = [];
     const taskRootFolder = plugin.settings.taskFolderPath;
     const searchFolderName = plugin.settings.searchFolderName;
     const doneFolderName = plugin.settings.doneFolderName;
@@ -41,8 +64,48 @@ export async function fetchObsidianTasks(plugin: GoogleCalendarTaskSync, tag: st
     return tasks;
 }
 
+// Returns the sync rule of the note, or undefined if no rule matches it
+export function findSyncRuleForFile(plugin: GoogleCalendarTaskSync, file: TFile, rules: SyncRule[] = getActiveSyncRules(plugin)): SyncRule | undefined {
+    return rules.find(rule => {
+        try {
+            return compileQuery(plugin, rule.query)(file);
+        } catch {
+            return false;
+        }
+    });
+}
+
+function fetchTasksByRules(plugin: GoogleCalendarTaskSync, rules: SyncRule[]): ObsidianTask[] {
+    const tasks: ObsidianTask[] = [];
+    const compiledRules = rules.flatMap(rule => {
+        try {
+            return [{ rule, matches: compileQuery(plugin, rule.query) }];
+        } catch (error) {
+            new Notice(`Sync rule "${rule.name}" is skipped: ${getErrorMessage(error)}`);
+            return [];
+        }
+    });
+
+    for (const file of plugin.app.vault.getMarkdownFiles()) {
+        const match = compiledRules.find(({ matches }) => matches(file));
+        if (match) {
+            const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+            tasks.push({
+                name: file.basename,
+                data: applyRuleMappings(plugin, match.rule, frontmatter),
+                file: file,
+                rule: match.rule,
+            });
+        }
+    }
+
+    debugLog(plugin, `Total tasks matched by ${compiledRules.length} sync rules: ${tasks.length}`);
+    return tasks;
+}
+
 // Retrieves events from the Google Calendar API
-export async function getGoogleCalendarEvents(plugin: GoogleCalendarTaskSync): Promise<calendar_v3.Schema$Event[]> {
+// With `onlyOwned`, only events created by the plugin are returned, with `timeMin` only events ending after it
+export async function getGoogleCalendarEvents(plugin: GoogleCalendarTaskSync, calendarId: string = "primary", onlyOwned: boolean = false, timeMin?: Date): Promise<calendar_v3.Schema$Event[]> {
   // Ensure the OAuth2 client is initialized and has valid credentials
   if (!plugin.oAuth2Client) {
     throw new Error("OAuth2 client is not initialized. Please authenticate with Google.");
@@ -58,15 +121,76 @@ export async function getGoogleCalendarEvents(plugin: GoogleCalendarTaskSync): P
     // Access the Google Calendar API
     const calendar = google.calendar({ version: "v3", auth: plugin.oAuth2Client });
 
-    // Retrieve the calendar events
-    const response = await calendar.events.list({
-      calendarId: "primary",
-      maxResults: 2500,
+    // Retrieve the calendar events page by page
+    const { events } = await listAllCalendarEvents(calendar, {
+      calendarId: calendarId,
+      ...(onlyOwned ? { privateExtendedProperty: [`${OWNED_EVENT_PROPERTY}=true`] } : {}),
+      ...(timeMin ? { timeMin: timeMin.toISOString() } : {}),
     });
 
-    return response.data.items || [];
+    return events;
   } catch (error) {
     console.error("Failed to retrieve Google Calendar events:", error);
     throw new Error("Error fetching Google Calendar events. Please check the console for details.");
   }
 }
+
+// Retrieves only the events changed since the stored sync token of the calendar was issued.
+// Without a token (or when Google expired it with 410 Gone) all events are listed and `fullSync` is set.
+// The returned `nextSyncToken` has to be stored in `syncTokens` once the changes are processed.
+export async function getChangedGoogleCalendarEvents(
+  plugin: GoogleCalendarTaskSync,
+  calendarId: string = "primary"
+): Promise<{ events: calendar_v3.Schema$Event[]; fullSync: boolean; nextSyncToken?: string | null }> {
+  if (!plugin.oAuth2Client) {
+    throw new Error("OAuth2 client is not initialized. Please authenticate with Google.");
+  }
+
+  const calendar = google.calendar({ version: "v3", auth: plugin.oAuth2Client });
+  const syncToken = plugin.settings.syncTokens?.[calendarId];
+
+  let result: { events: calendar_v3.Schema$Event[]; nextSyncToken?: string | null };
+  let fullSync = !syncToken;
+
+  try {
+    result = await listAllCalendarEvents(calendar, syncToken
+      ? { calendarId: calendarId, syncToken: syncToken }
+      : { calendarId: calendarId, showDeleted: true });
+  } catch (error) {
+    if (!isApiError(error, 410)) {
+      console.error("Failed to retrieve changed Google Calendar events:", error);
+      throw new Error("Error fetching Google Calendar changes. Please check the console for details.");
+    }
+
+    debugLog(plugin, `Sync token for calendar "${calendarId}" expired. Running a full resync.`);
+    fullSync = true;
+    result = await listAllCalendarEvents(calendar, { calendarId: calendarId, showDeleted: true });
+  }
+
+  debugLog(plugin, `Fetched ${result.events.length} ${fullSync ? "" : "changed "}events from calendar "${calendarId}".`);
+  return { events: result.events, fullSync, nextSyncToken: result.nextSyncToken };
+}
+
+// Follows `nextPageToken` until all pages are read, the last page carries the `nextSyncToken`
+async function listAllCalendarEvents(
+  calendar: calendar_v3.Calendar,
+  params: calendar_v3.Params$Resource$Events$List
+): Promise<{ events: calendar_v3.Schema$Event[]; nextSyncToken?: string | null }> {
+  const events: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | null | undefined;
+
+  do {
+    const response = await calendar.events.list({
+      ...params,
+      maxResults: 2500,
+      pageToken: pageToken,
+    });
+
+    events.push(...(response.data.items || []));
+    pageToken = response.data.nextPageToken || undefined;
+    nextSyncToken = response.data.nextSyncToken;
+  } while (pageToken);
+
+  return { events, nextSyncToken };
+}
@@ -0,0 +1,155 @@
+import GoogleCalendarTaskSync from "./main";
+import { addDays, getTimeZoneForTask, parseWallClockDate, toWallClockDate, WallClockDate } from "./timeZones";
+import { TaskData } from "./dataFetchers";
+
+const ISO_VALUE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?)?\s*(?:Z|[+-]\d{2}:?\d{2})?$/i;
+
+// Daily note links like `[[2026-10-20]]`, `[[Journal/2026-10-20]]` or `[[2026-10-20|Tuesday]]`
+const DAILY_NOTE_LINK_PATTERN = /\[\[(?:[^\]|]*\/)?([^\]|/]+)(?:\|[^\]]*)?\]\]/;
+
+const TIME_PATTERNS: { pattern: RegExp; toTime: (match: RegExpMatchArray) => [number, number] }[] = [
+  { pattern: /(?:^|\s)(?:at\s+)?noon(?=\s|$)/, toTime: () => [12, 0] },
+  { pattern: /(?:^|\s)(?:at\s+)?midnight(?=\s|$)/, toTime: () => [0, 0] },
+  {
+    pattern: /(?:^|\s)(?:at\s+)?(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)(?=\s|$)/,
+    toTime: match => [Number(match[1]) % 12 + (match[3] === 'pm' ? 12 : 0), Number(match[2] ?? 0)],
+  },
+  { pattern: /(?:^|\s)(?:at\s+)?(\d{1,2}):(\d{2})(?:\s*h|\s*uhr)?(?=\s|$)/, toTime: match => [Number(match[1]), Number(match[2])] },
+  // A bare hour needs the `at`, as in `tomorrow at 9`, other bare numbers aren't times
+  { pattern: /(?:^|\s)at\s+(\d{1,2})(?=\s|$)/, toTime: match => [Number(match[1]), 0] },
+];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Parses the date values people type into notes: ISO values, natural-language phrases
+ * (`tomorrow 15:00`, `friday at 10`, `next monday`, `in 3 days`, `2026-10-20 9am`), European
+ * dates (`20.10.2026 14:00`) and daily note links (`[[2026-10-20]]`). Relative phrases are
+ * resolved against the current date in the time zone, any other value throws.
+ */
+export function parseDateValue(value: unknown, timeZone: string, now: Date = new Date()): WallClockDate {
+  if (typeof value !== 'string') {
+    return parseWallClockDate(value, timeZone);
+  }
+
+  const text = value.replace(DAILY_NOTE_LINK_PATTERN, '$1').trim();
+  if (ISO_VALUE_PATTERN.test(text)) {
+    return parseWallClockDate(text, timeZone);
+  }
+
+  let rest = text.toLowerCase().replace(/,/g, ' ').replace(/\s+/g, ' ');
+  let time: string | undefined;
+
+  for (const { pattern, toTime } of TIME_PATTERNS) {
+    const match = rest.match(pattern);
+    if (match) {
+      const [hours, minutes] = toTime(match);
+      if (hours > 23 || minutes > 59) {
+        throw new Error(`Invalid time value (${value})`);
+      }
+      time = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`;
+      rest = rest.replace(match[0], ' ').trim();
+      break;
+    }
+  }
+
+  const today = toWallClockDate(now, timeZone).date;
+  const date = parseDatePhrase(rest.replace(/\s+at$/, '').trim(), today, time !== undefined);
+  if (!date) {
+    throw new Error(`Unparseable date value (${value})`);
+  }
+
+  return time ? { date, time } : { date };
+}
+
+// Formats a parsed value the way it is written back into notes, e.g. `2026-10-20T14:00`
+export function formatDateValue(wallClock: WallClockDate): string {
+  if (!wallClock.time) {
+    return wallClock.date;
+  }
+  const time = wallClock.time.endsWith(':00') ? wallClock.time.slice(0, 5) : wallClock.time;
+  return `${wallClock.date}T${time}`;
+}
+
+/**
+ * Returns the date fields of the task whose values aren't written in the normalized ISO
+ * form yet, with their normalized value. Unparsable values are left to the event mapping.
+ */
+export function getNormalizedDateFields(plugin: GoogleCalendarTaskSync, taskData: TaskData): Record<string, string> {
+  const { start, end } = plugin.settings.fieldMappings;
+  const timeZone = getTimeZoneForTask(plugin, taskData);
+  const normalizedFields: Record<string, string> = {};
+
+  for (const key of new Set([start, end].filter(Boolean))) {
+    const value = taskData[key!];
+    if (typeof value !== 'string' || !value.trim()) {
+      continue;
+    }
+
+    try {
+      const normalizedValue = formatDateValue(parseDateValue(value, timeZone));
+      if (normalizedValue !== value.trim()) {
+        normalizedFields[key!] = normalizedValue;
+      }
+    } catch {
+      // Invalid values are reported by the event mapping
+    }
+  }
+
+  return normalizedFields;
+}
+
+// Returns the `YYYY-MM-DD` date of a date phrase, or undefined if it isn't one
+function parseDatePhrase(phrase: string, today: string, hasTime: boolean): string | undefined {
+  if (phrase === '') {
+    // A time alone means today
+    return hasTime ? today : undefined;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(phrase)) {
+    return toValidDate(...phrase.split('-').map(Number) as [number, number, number]);
+  }
+
+  // European day-first dates: 20.10.2026, 20/10/2026, 20.10.26
+  const europeanDate = phrase.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4}|\d{2})\.?$/);
+  if (europeanDate) {
+    const year = Number(europeanDate[3]) + (europeanDate[3].length === 2 ? 2000 : 0);
+    return toValidDate(year, Number(europeanDate[2]), Number(europeanDate[1]));
+  }
+
+  const relativeDays: Record<string, number> = { today: 0, tonight: 0, tomorrow: 1, 'day after tomorrow': 2, yesterday: -1 };
+  if (phrase in relativeDays) {
+    return addDays(today, relativeDays[phrase]);
+  }
+
+  const inDays = phrase.match(/^in (\d+) (day|days|week|weeks)$/);
+  if (inDays) {
+    return addDays(today, Number(inDays[1]) * (inDays[2].startsWith('week') ? 7 : 1));
+  }
+
+  const todayWeekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  if (phrase === 'next week') {
+    // Monday of the next week
+    return addDays(today, (8 - todayWeekday) % 7 || 7);
+  }
+
+  // `monday` and `this monday` include today, `next monday` is the first one after today
+  const weekday = phrase.match(/^(?:(this|next) )?([a-z]+)$/);
+  if (weekday) {
+    const weekdayIndex = WEEKDAYS.findIndex(name => name === weekday[2] || name.slice(0, 3) === weekday[2]);
+    if (weekdayIndex !== -1) {
+      const daysAhead = (weekdayIndex - todayWeekday + 7) % 7;
+      return addDays(today, weekday[1] === 'next' && daysAhead === 0 ? 7 : daysAhead);
+    }
+  }
+
+  return undefined;
+}
+
+function toValidDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().split('T')[0];
+}
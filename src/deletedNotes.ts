@@ -0,0 +1,228 @@
+import { Notice, TAbstractFile, TFile } from "obsidian";
+import { google } from "googleapis";
+import GoogleCalendarTaskSync from "./main";
+import { DeletedNoteAction, saveSettings } from "./settings";
+import { getNotePathOfKey, removeSyncState, SyncStateEntry } from "./syncState";
+import {
+  BatchRequest,
+  buildEventDeleteRequest,
+  buildEventGetRequest,
+  buildEventPatchRequest,
+  executeBatch,
+  getBatchErrorMessage,
+  isApiError,
+} from "./googleBatch";
+import { completeGoogleTask } from "./taskAndEventOperators";
+import { ConfirmModal } from "./obsidianModals";
+import { getOAuth2Client, refreshAccessToken } from "./oauth";
+import { debugLog, getErrorMessage } from "./logger";
+
+// A note or inline task that is gone from the vault but still linked in the sync state
+export interface DeletedNote {
+  notePath: string;           // Sync state key, `path#^blockId` for inline tasks
+  entry: SyncStateEntry;
+}
+
+// Deleting a folder fires one event per note, they are handled together once the deletions stop
+const DELETED_NOTES_DELAY = 2000;
+
+const deletedNoteActionDescriptions: Record<DeletedNoteAction, string> = {
+  delete: "Their Google events and tasks will be deleted.",
+  cancel: "Their Google events will be cancelled and their Google Tasks completed.",
+  prefix: "The titles of their Google events and tasks will get the deleted prefix.",
+  none: "Their Google events and tasks will be kept.",
+};
+
+let pendingDeletedNotes: DeletedNote[] = [];
+let deletedNotesTimeout: number | undefined;
+
+/**
+ * Applies the deleted-note action to the events of task notes deleted in the vault.
+ */
+export function registerDeletedNoteEvents(plugin: GoogleCalendarTaskSync): void {
+  plugin.registerEvent(plugin.app.vault.on("delete", file => queueDeletedNote(plugin, file)));
+  plugin.register(() => window.clearTimeout(deletedNotesTimeout));
+}
+
+/**
+ * Returns the notes of the sync state that no longer exist, e.g. deleted while Obsidian was closed,
+ * and the inline tasks whose line was removed from their note.
+ */
+export function findOrphanedSyncStates(plugin: GoogleCalendarTaskSync): DeletedNote[] {
+  return Object.entries(plugin.settings.syncState)
+    .filter(([notePath]) => {
+      const file = plugin.app.vault.getAbstractFileByPath(getNotePathOfKey(notePath));
+      if (!(file instanceof TFile)) {
+        return true;
+      }
+
+      // A note without any block ids left has no `blocks`, only a note not indexed yet has no cache
+      const blockId = notePath.split('#^')[1];
+      const cache = plugin.app.metadataCache.getFileCache(file);
+      return !!blockId && !!cache && !cache.blocks?.[blockId.toLowerCase()];
+    })
+    .map(([notePath, entry]) => ({ notePath, entry }));
+}
+
+/**
+ * Applies the configured action to the events and Google Tasks of the deleted notes and removes
+ * the notes from the sync state. Notes whose action failed stay in the state and are retried by
+ * the next sync. Returns the error logs of the failed notes.
+ */
+export async function handleDeletedNotes(plugin: GoogleCalendarTaskSync, deletedNotes: DeletedNote[]): Promise<string[]> {
+  const errorLogs: string[] = [];
+  let action = plugin.settings.deletedNoteAction;
+  const linkedNotes = deletedNotes.filter(({ entry }) => entry.eventId || entry.taskId);
+
+  if (action !== 'none' && linkedNotes.length > 0) {
+    if (!plugin.oAuth2Client) {
+      debugLog(plugin, `${linkedNotes.length} deleted notes kept in the sync state until Google is authenticated.`);
+      return errorLogs;
+    }
+
+    const { confirmBulkDeletions, bulkDeletionThreshold } = plugin.settings;
+    if (confirmBulkDeletions && linkedNotes.length >= bulkDeletionThreshold) {
+      const confirmed = await ConfirmModal.ask(
+        plugin.app,
+        "Deleted task notes",
+        `${linkedNotes.length} deleted notes are linked to Google. ${deletedNoteActionDescriptions[action]} ` +
+          "Cancel keeps them in Google and only removes the links.",
+        "Apply"
+      );
+      if (!confirmed) {
+        action = 'none';
+      }
+    }
+  }
+
+  const failedPaths = new Set<string>();
+  if (action !== 'none' && linkedNotes.length > 0) {
+    await refreshAccessToken(plugin);
+
+    for (const [notePath, message] of await applyActionToEvents(plugin, linkedNotes, action)) {
+      failedPaths.add(notePath);
+      errorLogs.push(`Error handling deleted note "${notePath}": ${message}`);
+    }
+
+    for (const { notePath, entry } of linkedNotes.filter(({ entry }) => entry.taskId)) {
+      try {
+        await applyActionToGoogleTask(plugin, entry, action);
+      } catch (error) {
+        failedPaths.add(notePath);
+        errorLogs.push(`Error handling deleted note "${notePath}": ${getErrorMessage(error)}`);
+      }
+    }
+  }
+
+  deletedNotes
+    .filter(({ notePath }) => !failedPaths.has(notePath))
+    .forEach(({ notePath }) => removeSyncState(plugin, notePath));
+  await saveSettings(plugin, plugin.settings);
+
+  debugLog(plugin, `Handled ${deletedNotes.length - failedPaths.size} deleted notes with action "${action}".`);
+  return errorLogs;
+}
+
+function queueDeletedNote(plugin: GoogleCalendarTaskSync, file: TAbstractFile): void {
+  // The note's own entry and the entries of its inline tasks
+  const notePaths = Object.keys(plugin.settings.syncState).filter(key => getNotePathOfKey(key) === file.path);
+  if (!(file instanceof TFile) || notePaths.length === 0) {
+    return;
+  }
+
+  pendingDeletedNotes.push(...notePaths.map(notePath => ({ notePath, entry: plugin.settings.syncState[notePath] })));
+
+  window.clearTimeout(deletedNotesTimeout);
+  deletedNotesTimeout = window.setTimeout(async () => {
+    const deletedNotes = pendingDeletedNotes;
+    pendingDeletedNotes = [];
+
+    try {
+      const errorLogs = await handleDeletedNotes(plugin, deletedNotes);
+      if (errorLogs.length > 0) {
+        new Notice("Handling deleted task notes failed. Check console for details.");
+        console.error("Error logs:", errorLogs);
+      }
+    } catch (error) {
+      console.error("Failed to handle deleted task notes:", error);
+    }
+  }, DELETED_NOTES_DELAY);
+}
+
+// Returns the error message per note path of the events the action failed for
+async function applyActionToEvents(
+  plugin: GoogleCalendarTaskSync,
+  deletedNotes: DeletedNote[],
+  action: DeletedNoteAction
+): Promise<Map<string, string>> {
+  const errors = new Map<string, string>();
+  let notesWithEvent = deletedNotes.filter(({ entry }) => entry.eventId);
+  const calendarIdOf = (entry: SyncStateEntry) => entry.calendarId || "primary";
+
+  // The prefix is added to the current title, which has to be read first
+  const summaries = new Map<DeletedNote, string>();
+  if (action === 'prefix') {
+    const responses = await executeBatch(plugin, notesWithEvent.map(({ entry }) =>
+      buildEventGetRequest(calendarIdOf(entry), entry.eventId!)));
+    responses.forEach((response, index) => {
+      if (response.status < 400) {
+        summaries.set(notesWithEvent[index], response.body.summary || "");
+      } else if (response.status !== 404 && response.status !== 410) {
+        errors.set(notesWithEvent[index].notePath, getBatchErrorMessage(response));
+      }
+    });
+    notesWithEvent = notesWithEvent.filter(deletedNote =>
+      summaries.has(deletedNote) && !summaries.get(deletedNote)!.startsWith(plugin.settings.deletedNotePrefix));
+  }
+
+  const requests: BatchRequest[] = notesWithEvent.map(deletedNote => {
+    const { entry } = deletedNote;
+    switch (action) {
+      case 'cancel':
+        return buildEventPatchRequest(calendarIdOf(entry), entry.eventId!, { status: "cancelled" }, plugin.settings.sendUpdates);
+      case 'prefix':
+        return buildEventPatchRequest(calendarIdOf(entry), entry.eventId!, {
+          summary: `${plugin.settings.deletedNotePrefix}${summaries.get(deletedNote)}`,
+        }, plugin.settings.sendUpdates);
+      default:
+        return buildEventDeleteRequest(calendarIdOf(entry), entry.eventId!, plugin.settings.sendUpdates);
+    }
+  });
+
+  (await executeBatch(plugin, requests)).forEach((response, index) => {
+    // An event that is already gone needs no action
+    if (response.status >= 400 && response.status !== 404 && response.status !== 410) {
+      errors.set(notesWithEvent[index].notePath, getBatchErrorMessage(response));
+    }
+  });
+
+  return errors;
+}
+
+async function applyActionToGoogleTask(plugin: GoogleCalendarTaskSync, entry: SyncStateEntry, action: DeletedNoteAction): Promise<void> {
+  const tasks = google.tasks({ version: "v1", auth: getOAuth2Client(plugin) });
+  const taskListId = entry.taskListId || "@default";
+
+  try {
+    if (action === 'delete') {
+      await tasks.tasks.delete({ tasklist: taskListId, task: entry.taskId });
+    } else if (action === 'cancel') {
+      await completeGoogleTask(plugin, entry.taskId!, taskListId);
+    } else if (action === 'prefix') {
+      const googleTask = await tasks.tasks.get({ tasklist: taskListId, task: entry.taskId });
+      const title = googleTask.data.title || "";
+      if (!title.startsWith(plugin.settings.deletedNotePrefix)) {
+        await tasks.tasks.patch({
+          tasklist: taskListId,
+          task: entry.taskId,
+          requestBody: { title: `${plugin.settings.deletedNotePrefix}${title}` },
+        });
+      }
+    }
+  } catch (error) {
+    // A Google Task that is already gone needs no action
+    if (!isApiError(error, 404)) {
+      throw error;
+    }
+  }
+}
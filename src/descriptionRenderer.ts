@@ -0,0 +1,171 @@
+import { TFile } from "obsidian";
+import GoogleCalendarTaskSync from "./main";
+import { buildTemplateContext, getTemplatesForFile, renderTemplate } from "./templates";
+import { InlineTask } from "./inlineTasks";
+import { TaskData } from "./dataFetchers";
+import { stripFrontmatter } from "./fileHelpers";
+
+/**
+ * Renders markdown of a note as the HTML subset Google Calendar shows in descriptions.
+ * Frontmatter, embeds and comments are dropped, wiki links point to their notes, checklists
+ * become check boxes and the text is cut at the description length limit.
+ */
+export function renderDescription(plugin: GoogleCalendarTaskSync, markdown: string, sourceFile: TFile): string {
+  const maxLength = plugin.settings.descriptionMaxLength;
+  const lines = stripFrontmatter(markdown)
+    .replace(/%%[\s\S]*?%%/g, '')
+    .replace(/!\[\[[^\]]*\]\]/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .trim()
+    .split(/\r?\n/);
+
+  const html: string[] = [];
+  let openList: 'ul' | 'ol' | undefined;
+  let length = 0;
+  let truncated = false;
+
+  for (const line of lines) {
+    const text = line.replace(/\s\^[\w-]+$/, '').trimEnd();
+
+    if (maxLength > 0 && length + text.length > maxLength) {
+      truncated = true;
+      break;
+    }
+    length += text.length + 1;
+
+    const listItem = text.match(/^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+    const listType = listItem ? (listItem[1] ? 'ul' : 'ol') : undefined;
+    if (openList && openList !== listType) {
+      html.push(`</${openList}>`);
+      openList = undefined;
+    }
+
+    if (listItem) {
+      if (!openList) {
+        html.push(`<${listType}>`);
+        openList = listType;
+      }
+      html.push(`<li>${renderListItem(plugin, listItem[3], sourceFile)}</li>`);
+      continue;
+    }
+
+    const heading = text.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      html.push(`<b>${renderInline(plugin, heading[1], sourceFile)}</b><br>`);
+    } else if (/^\s*(?:---+|\*\*\*+)\s*$/.test(text)) {
+      html.push('<hr>');
+    } else {
+      html.push(`${renderInline(plugin, text.replace(/^>\s?/, ''), sourceFile)}<br>`);
+    }
+  }
+
+  if (openList) {
+    html.push(`</${openList}>`);
+  }
+  if (truncated) {
+    html.push('…<br>');
+  }
+
+  // Collapse the breaks of blank lines and drop the trailing one
+  return html.join('').replace(/(<br>){3,}/g, '<br><br>').replace(/(<br>)+$/, '');
+}
+
+/**
+ * Converts the HTML of an event description into the markdown of a note body: breaks and
+ * paragraphs become lines, links markdown links and list items list lines. Plain text stays as is.
+ */
+export function htmlToMarkdown(html: string): string {
+  if (!/<[a-z][^>]*>/i.test(html)) {
+    return html;
+  }
+
+  const markdown = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(?:p|div|h[1-6]|ul|ol)>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/li>/gi, '\n')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, url: string, label: string) => label === url ? url : `[${label}](${url})`)
+    .replace(/<\/?(?:b|strong)>/gi, '**')
+    .replace(/<\/?(?:i|em)>/gi, '*')
+    .replace(/<\/?(?:s|del)>/gi, '~~')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#39;/g, "'");
+
+  return unescapeHtml(markdown).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Link that opens the note in Obsidian, e.g. from a click in Google Calendar
+export function getObsidianNoteUrl(plugin: GoogleCalendarTaskSync, file: TFile): string {
+  const vaultName = encodeURIComponent(plugin.app.vault.getName());
+  return `obsidian://open?vault=${vaultName}&file=${encodeURIComponent(file.path)}`;
+}
+
+/**
+ * Builds the event description of a task: the description template if one applies, then the
+ * `description` field if it is mapped and set, otherwise the note body (the indented lines
+ * below inline tasks), each rendered as HTML and followed by the link to the note.
+ */
+export async function buildEventDescription(plugin: GoogleCalendarTaskSync, taskData: TaskData, file: TFile, inlineTask?: InlineTask): Promise<string> {
+  const mapping = plugin.settings.fieldMappings.description;
+  const template = getTemplatesForFile(plugin, file).description;
+
+  let markdown: string;
+  if (template) {
+    markdown = renderTemplate(template, await buildTemplateContext(plugin, taskData, file, inlineTask));
+  } else if (mapping && taskData[mapping]) {
+    markdown = String(taskData[mapping]);
+  } else {
+    markdown = inlineTask ? inlineTask.details : await plugin.app.vault.read(file);
+  }
+  const description = renderDescription(plugin, markdown, file);
+
+  if (!plugin.settings.addNoteLinkToDescription) {
+    return description;
+  }
+  const noteLink = `<a href="${escapeHtml(getObsidianNoteUrl(plugin, file))}">Open in Obsidian</a>`;
+  return description ? `${description}<br><br>${noteLink}` : noteLink;
+}
+
+function renderListItem(plugin: GoogleCalendarTaskSync, text: string, sourceFile: TFile): string {
+  const checkbox = text.match(/^\[(.)\]\s*(.*)$/);
+  if (!checkbox) {
+    return renderInline(plugin, text, sourceFile);
+  }
+
+  const isChecked = checkbox[1] !== ' ';
+  const content = renderInline(plugin, checkbox[2], sourceFile);
+  return isChecked ? `☑ <s>${content}</s>` : `☐ ${content}`;
+}
+
+function renderInline(plugin: GoogleCalendarTaskSync, text: string, sourceFile: TFile): string {
+  // Links are rendered on the escaped text, their targets are escaped again as attributes
+  return escapeHtml(text)
+    .replace(/\[\[([^\]|#]*)(?:#([^\]|]*))?(?:\|([^\]]*))?\]\]/g, (_, target: string, heading?: string, alias?: string) =>
+      renderWikiLink(plugin, unescapeHtml(target), heading && unescapeHtml(heading), alias && unescapeHtml(alias), sourceFile))
+    .replace(/\[([^\]]*)\]\((https?:\/\/[^)\s]+)\)/g, (_, label: string, url: string) => `<a href="${url}">${label}</a>`)
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '<b>$2</b>')
+    .replace(/(^|\s)[*_](?!\s)(.+?)[*_](?!\w)/g, '$1<i>$2</i>')
+    .replace(/~~(.+?)~~/g, '<s>$1</s>')
+    .replace(/==(.+?)==/g, '$1');
+}
+
+// Resolved wiki links open their note in Obsidian, unresolved ones stay plain text
+function renderWikiLink(plugin: GoogleCalendarTaskSync, target: string, heading: string | undefined, alias: string | undefined, sourceFile: TFile): string {
+  const linkedFile = target ? plugin.app.metadataCache.getFirstLinkpathDest(target, sourceFile.path) : sourceFile;
+  const label = escapeHtml(alias || [target.split('/').pop(), heading].filter(Boolean).join(' > '));
+
+  if (!linkedFile) {
+    return label;
+  }
+  return `<a href="${escapeHtml(getObsidianNoteUrl(plugin, linkedFile))}">${label}</a>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeHtml(text: string): string {
+  return text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+}
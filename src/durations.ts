@@ -0,0 +1,49 @@
+// Units of durations like `45m`, `1h30m` or `1d`, in minutes
+const DURATION_UNITS: Record<string, number> = { d: 24 * 60, h: 60, m: 1 };
+
+const DURATION_PATTERN = /^(?:(\d+(?:\.\d+)?)\s*d)?\s*(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/i;
+
+/**
+ * Parses a duration like `45m`, `1h30m`, `1.5h` or `2d` into minutes. Plain numbers are minutes.
+ */
+export function parseDuration(value: unknown): number {
+  const text = String(value ?? '').trim();
+
+  if (/^\d+$/.test(text)) {
+    return Number(text);
+  }
+
+  const match = text.match(DURATION_PATTERN);
+  if (!text || !match || (!match[1] && !match[2] && !match[3])) {
+    throw new Error(`Invalid duration (${value}), use e.g. 45m, 1h30m or 1d`);
+  }
+
+  const [, days, hours, minutes] = match;
+  return Math.round(
+    Number(days ?? 0) * DURATION_UNITS.d + Number(hours ?? 0) * DURATION_UNITS.h + Number(minutes ?? 0) * DURATION_UNITS.m
+  );
+}
+
+// Empty values count as valid, they fall back to the default duration
+export function isValidDuration(value: string): boolean {
+  if (!value.trim()) {
+    return true;
+  }
+  try {
+    parseDuration(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Formats minutes as the shortest duration `parseDuration` reads back, e.g. 90 as `1h30m`
+export function formatDuration(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours === 0) {
+    return `${minutes}m`;
+  }
+  return minutes === 0 ? `${hours}h` : `${hours}h${minutes}m`;
+}
@@ -1,42 +1,84 @@
 import {Notice, TFile, TFolder, Vault} from "obsidian";
-import {calendar_v3} from "googleapis";
+import {calendar_v3, tasks_v1} from "googleapis";
 import GoogleCalendarTaskSync from "./main";
 import * as path from 'path';
 import * as fs from 'fs';
 import {debugLog} from "./logger";
+import {SyncMode} from "./settings";
+import {isMap, parseDocument, stringify, ToStringOptions} from "yaml";
+import {
+	addDays,
+	formatDateTimeInTimeZone,
+	getDefaultTimeZone,
+	getEventInstant,
+	getSystemTimeZone,
+	addMinutes,
+	getTimeZoneForTask,
+	toEventDateTime,
+	WallClockDate,
+} from "./timeZones";
+import {formatDuration, parseDuration} from "./durations";
+import {parseDateValue} from "./dateParser";
+import {buildEventDescription} from "./descriptionRenderer";
+import {buildTemplateContext, getTemplatesForFile, renderSummaryTemplate} from "./templates";
+import {InlineTask, updateInlineTask} from "./inlineTasks";
+import {toRuleFields} from "./syncRules";
+import {buildRecurrence, recurrenceToYaml} from "./recurrence";
+import {formatAttendees, parseAttendees} from "./attendees";
+import {applyCompletionToEvent, applyStatusActionToEvent, applyStatusActionToGoogleTask} from "./statusActions";
+import {ObsidianTask, TaskData} from "./dataFetchers";
 
+// Keys in `extendedProperties.private` that mark events created by this plugin
+export const OWNED_EVENT_PROPERTY = 'obsidianTaskSync';
+export const NOTE_PATH_PROPERTY = 'obsidianNotePath';
 
-export async function mapYamlToEvent(plugin: GoogleCalendarTaskSync, taskData: any, file: TFile): Promise<calendar_v3.Schema$Event> {
+// Optional event fields set from the note, an update clears them when the note no longer sets them
+const CLEARABLE_EVENT_FIELDS = ['location', 'attendees', 'colorId', 'reminders', 'recurrence', 'visibility', 'description'];
+
+export async function mapYamlToEvent(plugin: GoogleCalendarTaskSync, taskData: TaskData, file: TFile, inlineTask?: InlineTask): Promise<calendar_v3.Schema$Event> {
 	const mappings = plugin.settings.fieldMappings;
 	const event: calendar_v3.Schema$Event = {};
 
-	const startDate = taskData[mappings.start] ? new Date(taskData[mappings.start]) : new Date();
-	const endDate = taskData[mappings.end] ? new Date(taskData[mappings.end]) : new Date();
+	// Dates are read as wall-clock values of the task's time zone, never shifted through UTC
+	const timeZone = getTimeZoneForTask(plugin, taskData);
+	const parseDateField = (field: 'start' | 'end'): WallClockDate => {
+		const value = taskData[mappings[field]];
+		try {
+			return parseDateValue(value, timeZone);
+		} catch {
+			throw new Error(`Unparseable date for ${field} in "${mappings[field]}" (${value})`);
+		}
+	};
 
-	if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
-		throw new Error(`Invalid time value for start (${taskData[mappings.start]}) or end (${taskData[mappings.end]})`);
+	if (!mappings.start || !taskData[mappings.start]) {
+		throw new Error(`Missing start date, the "${mappings.start}" field is empty`);
 	}
+	const startDate = parseDateField('start');
+
+	// Without an own end value the end is the start plus the task's duration
+	const hasOwnEnd = !!mappings.end && mappings.end !== mappings.start && !!taskData[mappings.end];
+	const durationMinutes = hasOwnEnd ? 0 : getDurationForTask(plugin, taskData, file);
+	const endDate = hasOwnEnd ? parseDateField('end') : addMinutes(startDate, durationMinutes);
 
-	const isAllDayEvent = taskData[mappings.start].length === 10 && taskData[mappings.end].length === 10;
-	if (isAllDayEvent) {
-		event.start = {date: startDate.toISOString().split('T')[0]};
-		event.end = {date: endDate.toISOString().split('T')[0]};
+	if (!startDate.time) {
+		// All-day events cover at least their start day, Google's end date of them is exclusive
+		const dayCount = Math.max(Math.ceil(durationMinutes / (24 * 60)), 1);
+		const lastDay = hasOwnEnd ? endDate.date : addDays(startDate.date, dayCount - 1);
+		event.start = {date: startDate.date};
+		event.end = {date: addDays(lastDay, 1)};
 	} else {
-		event.start = {dateTime: startDate.toISOString()};
-		event.end = {dateTime: endDate.toISOString()};
+		event.start = toEventDateTime(startDate, timeZone);
+		event.end = toEventDateTime({...endDate, time: endDate.time ?? '00:00:00'}, timeZone);
 	}
 
-	event.summary = taskData[mappings.name] || file.basename;
+	event.summary = await buildTaskTitle(plugin, taskData, file, inlineTask);
 
 	// Optional fields, only included if they are set
-	if (mappings.description && taskData[mappings.description]) {
-		event.description = taskData[mappings.description];
-	}
 	if (mappings.location && taskData[mappings.location]) {
 		event.location = taskData[mappings.location];
 	}
 	if (mappings.attendees && taskData[mappings.attendees]) {
-		event.attendees = JSON.parse(taskData[mappings.attendees]);
+		event.attendees = parseAttendees(plugin, taskData[mappings.attendees], file);
 	}
 	if (mappings.colorId && taskData[mappings.colorId]) {
 		event.colorId = taskData[mappings.colorId];
@@ -44,24 +86,257 @@ export async function mapYamlToEvent(plugin: GoogleCalendarTaskSync, taskData: a
 	if (mappings.reminders && taskData[mappings.reminders]) {
 		event.reminders = JSON.parse(taskData[mappings.reminders]);
 	}
-	if (mappings.recurrence && taskData[mappings.recurrence]) {
-		event.recurrence = taskData[mappings.recurrence].split(',');
+	const recurrence = buildRecurrence(plugin, taskData, startDate, timeZone);
+	if (recurrence) {
+		event.recurrence = recurrence;
 	}
 	if (mappings.visibility && taskData[mappings.visibility]) {
 		event.visibility = taskData[mappings.visibility];
 	}
 
 	if (file) {
-		event.description = await plugin.app.vault.read(file);
+		event.description = await buildEventDescription(plugin, taskData, file, inlineTask);
+	} else if (mappings.description && taskData[mappings.description]) {
+		event.description = taskData[mappings.description];
 	}
 
 	if (taskData.googleEventId) {
 		event.id = taskData.googleEventId;
 	}
 
+	applyStatusActionToEvent(plugin, event, taskData);
+	applyCompletionToEvent(plugin, event, taskData, timeZone);
+
+	// Mark the event as created by the plugin, so only owned events are ever deleted or deduplicated
+	if (file) {
+		event.extendedProperties = {private: getOwnershipProperties(inlineTask ? `${file.path}#^${inlineTask.blockId}` : file.path)};
+	}
+
 	return event;
 }
 
+export function getOwnershipProperties(notePath: string): Record<string, string> {
+	return {[OWNED_EVENT_PROPERTY]: 'true', [NOTE_PATH_PROPERTY]: notePath};
+}
+
+export function isOwnedEvent(event: calendar_v3.Schema$Event): boolean {
+	return event.extendedProperties?.private?.[OWNED_EVENT_PROPERTY] === 'true';
+}
+
+// Returns the path of the note an owned event was created from
+export function getOwnedEventNotePath(event: calendar_v3.Schema$Event): string | undefined {
+	return isOwnedEvent(event) ? event.extendedProperties?.private?.[NOTE_PATH_PROPERTY] : undefined;
+}
+
+// Event fields that can be pulled back from Google, keyed by their field mapping
+export const pullableEventFields: Record<string, keyof calendar_v3.Schema$Event> = {
+	start: 'start',
+	end: 'end',
+	name: 'summary',
+	location: 'location',
+	colorId: 'colorId',
+	attendees: 'attendees',
+	reminders: 'reminders',
+	repeat: 'recurrence',
+};
+
+// Duration of a task without an own end: the note's duration field, then its folder pair's default, then the global default
+export function getDurationForTask(plugin: GoogleCalendarTaskSync, taskData: TaskData, file?: TFile): number {
+	const { fieldMappings, folderPairSettings, defaultDuration } = plugin.settings;
+
+	if (fieldMappings.duration && taskData[fieldMappings.duration]) {
+		return parseDuration(taskData[fieldMappings.duration]);
+	}
+
+	if (file) {
+		const folderPairs = findMatchingFolderPairs(
+			plugin,
+			plugin.app.vault,
+			plugin.settings.taskFolderPath,
+			plugin.settings.searchFolderName,
+			plugin.settings.doneFolderName
+		);
+		const pairPath = getFolderPairPathForFile(folderPairs, file);
+		if (pairPath && folderPairSettings[pairPath]?.defaultDuration) {
+			return parseDuration(folderPairSettings[pairPath].defaultDuration);
+		}
+	}
+
+	return defaultDuration ? parseDuration(defaultDuration) : 0;
+}
+
+// Reverse of `mapYamlToEvent`: converts the given event fields into frontmatter values,
+// times are written as wall-clock time of the given time zone
+export function mapEventToYaml(
+	plugin: GoogleCalendarTaskSync,
+	event: calendar_v3.Schema$Event,
+	fields: string[] = Object.keys(pullableEventFields),
+	timeZone: string = getDefaultTimeZone(plugin)
+): TaskData {
+	const mappings = plugin.settings.fieldMappings;
+	const yamlData: TaskData = {};
+
+	for (const field of fields) {
+		const yamlKey = mappings[field];
+		if (!yamlKey) {
+			continue;
+		}
+
+		// Start and end often share one field, the length of timed events is kept as duration then
+		if (field === 'end' && yamlKey === mappings.start) {
+			if (mappings.duration && event.start?.dateTime && event.end?.dateTime) {
+				const durationMinutes = (getEventInstant(event.end, timeZone).getTime() - getEventInstant(event.start, timeZone).getTime()) / 60000;
+				yamlData[mappings.duration] = formatDuration(Math.max(Math.round(durationMinutes), 0));
+			}
+			continue;
+		}
+
+		switch (field) {
+			case 'start':
+			case 'end': {
+				const eventDate = event[field];
+				if (eventDate?.date) {
+					// The exclusive all-day end date of Google is the day before in the note
+					yamlData[yamlKey] = field === 'end' ? addDays(eventDate.date, -1) : eventDate.date;
+				} else if (eventDate?.dateTime) {
+					yamlData[yamlKey] = formatDateTimeInTimeZone(getEventInstant(eventDate, timeZone), timeZone);
+				}
+				break;
+			}
+			case 'name':
+				yamlData[yamlKey] = event.summary || '';
+				break;
+			case 'attendees':
+				yamlData[yamlKey] = formatAttendees(plugin, event.attendees);
+				break;
+			case 'reminders':
+				yamlData[yamlKey] = JSON.stringify(event.reminders || {});
+				break;
+			case 'repeat':
+				Object.assign(yamlData, recurrenceToYaml(plugin, event.recurrence, timeZone));
+				break;
+			default:
+				yamlData[yamlKey] = event[pullableEventFields[field]] ?? '';
+		}
+	}
+
+	return yamlData;
+}
+
+// Title of the event or Google Task: the summary template if one applies, otherwise the name field or file name
+async function buildTaskTitle(plugin: GoogleCalendarTaskSync, taskData: TaskData, file: TFile, inlineTask?: InlineTask): Promise<string> {
+	const {summary} = getTemplatesForFile(plugin, file);
+	if (!summary) {
+		return taskData[plugin.settings.fieldMappings.name] || file.basename;
+	}
+	return renderSummaryTemplate(summary, await buildTemplateContext(plugin, taskData, file, inlineTask)) || file.basename;
+}
+
+// Returns the field mappings whose values differ between the locally mapped event and the Google event.
+// A title built from a summary template can't be written back into one field, so it is left out.
+export function getChangedEventFields(plugin: GoogleCalendarTaskSync, localEvent: calendar_v3.Schema$Event, remoteEvent: calendar_v3.Schema$Event, file?: TFile): string[] {
+	const mappings = plugin.settings.fieldMappings;
+	const hasSummaryTemplate = !!file && !!getTemplatesForFile(plugin, file).summary;
+
+	return Object.keys(pullableEventFields).filter(field => {
+		if (!mappings[field] || (field === 'name' && hasSummaryTemplate)) {
+			return false;
+		}
+		const eventKey = pullableEventFields[field];
+		return normalizeEventValue(eventKey, localEvent[eventKey]) !== normalizeEventValue(eventKey, remoteEvent[eventKey]);
+	});
+}
+
+/**
+ * Returns the fields of the local event that differ from the remote one, for a PATCH that leaves
+ * everything else untouched. Fields the note no longer sets are cleared with `null`.
+ */
+export function getEventPatch(localEvent: calendar_v3.Schema$Event, remoteEvent: calendar_v3.Schema$Event): calendar_v3.Schema$Event {
+	const patch: Record<string, unknown> = {};
+	const keys = new Set([...Object.keys(localEvent), ...CLEARABLE_EVENT_FIELDS]) as Set<keyof calendar_v3.Schema$Event>;
+
+	for (const key of keys) {
+		if (key === 'id') {
+			continue;
+		}
+		const localValue = localEvent[key];
+		const remoteValue = remoteEvent[key];
+		if (localValue === undefined && (remoteValue === undefined || remoteValue === null)) {
+			continue;
+		}
+
+		const isChanged = ['start', 'end', 'attendees', 'reminders', 'recurrence'].includes(key)
+			? normalizeEventValue(key, localValue) !== normalizeEventValue(key, remoteValue)
+			: JSON.stringify(localValue ?? null) !== JSON.stringify(remoteValue ?? null);
+		if (isChanged) {
+			patch[key] = localValue ?? null;
+		}
+	}
+
+	return patch as calendar_v3.Schema$Event;
+}
+
+function normalizeEventValue(eventKey: keyof calendar_v3.Schema$Event, value: unknown): string {
+	if (value === undefined || value === null || value === '') {
+		return '';
+	}
+
+	switch (eventKey) {
+		case 'start':
+		case 'end': {
+			const time = value as calendar_v3.Schema$EventDateTime;
+			return time.date ? time.date : String(getEventInstant(time, getSystemTimeZone()).getTime());
+		}
+		case 'attendees':
+			return (value as calendar_v3.Schema$EventAttendee[]).map(attendee => `${attendee.email?.toLowerCase()}${attendee.optional ? '?' : ''}`).sort().join(',');
+		case 'reminders': {
+			const reminders = value as NonNullable<calendar_v3.Schema$Event['reminders']>;
+			return JSON.stringify({useDefault: !!reminders.useDefault, overrides: reminders.overrides || []});
+		}
+		case 'recurrence':
+			return [...value as string[]].sort().join('\n');
+		default:
+			return String(value);
+	}
+}
+
+export async function mapYamlToGoogleTask(plugin: GoogleCalendarTaskSync, taskData: TaskData, file: TFile, inlineTask?: InlineTask): Promise<tasks_v1.Schema$Task> {
+	const mappings = plugin.settings.fieldMappings;
+	const googleTask: tasks_v1.Schema$Task = {};
+
+	googleTask.title = await buildTaskTitle(plugin, taskData, file, inlineTask);
+
+	// Google Tasks only keeps the date part of `due`
+	const dueValue = taskData[mappings.end || mappings.start] ?? taskData[mappings.start];
+	if (dueValue) {
+		let dueDate: WallClockDate;
+		try {
+			dueDate = parseDateValue(dueValue, getTimeZoneForTask(plugin, taskData));
+		} catch {
+			throw new Error(`Unparseable date for due (${dueValue})`);
+		}
+		googleTask.due = `${dueDate.date}T00:00:00.000Z`;
+	}
+
+	if (mappings.description && taskData[mappings.description]) {
+		googleTask.notes = taskData[mappings.description];
+	} else if (inlineTask) {
+		googleTask.notes = inlineTask.details;
+	} else if (file) {
+		const fileContent = await plugin.app.vault.read(file);
+		googleTask.notes = fileContent.replace(/^---\n[\s\S]*?\n---\n?/, '').trim();
+	}
+
+	googleTask.status = 'needsAction';
+	applyStatusActionToGoogleTask(plugin, googleTask, taskData);
+
+	if (taskData.googleTaskId) {
+		googleTask.id = taskData.googleTaskId;
+	}
+
+	return googleTask;
+}
+
 export function getLogFilePath(vaultPath: string, logFilePath: string): string {
 	// Kombiniere den Vault-Pfad mit dem benutzerdefinierten Pfad
 	const folderPath = path.join(vaultPath, logFilePath || 'Logs');
@@ -83,18 +358,88 @@ export function logInfo(message: string): void {
 	console.log(`plugin:extended-google-calendar-sync: ${message}`);
 }
 
-export async function saveTaskDataToYaml(plugin: GoogleCalendarTaskSync, file: TFile, data: any) {
-	const yamlContent = `---\n${Object.entries(data)
-	  .map(([key, value]) => `${key}: ${value}`)
-	  .join('\n')}\n---\n`;
+// The closing `---` has to start its own line, a value ending in `---` doesn't close the frontmatter
+const FRONTMATTER_PATTERN = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[^\S\r\n]*(?:\r?\n|$)/;
 
+// Note content without its frontmatter
+export function stripFrontmatter(content: string): string {
+	return content.replace(FRONTMATTER_PATTERN, '');
+}
+
+// Keeps long values on one line and flow lists like `[task, work]` as they are written in notes
+const YAML_OPTIONS: ToStringOptions = { lineWidth: 0, flowCollectionPadding: false };
+
+/**
+ * Writes the changed keys into the note's frontmatter through a YAML round-trip. Untouched keys keep
+ * their types, quoting, comments and order. Keys changed to `undefined` are removed.
+ */
+export async function updateFrontmatter(plugin: GoogleCalendarTaskSync, file: TFile, changes: TaskData): Promise<void> {
 	const fileContent = await plugin.app.vault.read(file);
-	const existingYamlEndIndex = fileContent.indexOf('---', 3);
-	const updatedContent = `${yamlContent}\n${fileContent
-	  .slice(existingYamlEndIndex + 3)
-	  .trim()}`;
+	const match = fileContent.match(FRONTMATTER_PATTERN);
+
+	const document = parseDocument(match?.[1] ?? '');
+	if (document.errors.length > 0) {
+		throw new Error(`Invalid frontmatter in "${file.path}": ${document.errors[0].message}`);
+	}
+
+	Object.entries(changes).forEach(([key, value]) => {
+		if (value === undefined) {
+			document.delete(key);
+		} else {
+			document.set(key, value);
+		}
+	});
+
+	// An emptied frontmatter would otherwise be written as `{}`, CRLF notes keep their line endings
+	const isEmpty = isMap(document.contents) && document.contents.items.length === 0;
+	const lineEnding = (match ? match[0] : fileContent).includes('\r\n') ? '\r\n' : '\n';
+	const frontmatter = `---\n${isEmpty ? '' : document.toString(YAML_OPTIONS)}---\n`.replace(/\n/g, lineEnding);
+	const updatedContent = match
+		? `${frontmatter}${fileContent.slice(match[0].length)}`
+		: `${frontmatter}${fileContent}`;
 
-	await plugin.app.vault.modify(file, updatedContent);
+	if (updatedContent !== fileContent) {
+		await plugin.app.vault.modify(file, updatedContent);
+	}
+}
+
+/**
+ * Applies the changes to the task's data and writes them into its note's frontmatter,
+ * or into the checklist line of an inline task.
+ */
+export async function updateTaskFrontmatter(plugin: GoogleCalendarTaskSync, task: ObsidianTask, changes: TaskData): Promise<void> {
+	if (task.inline) {
+		await updateInlineTask(plugin, task, changes);
+		return;
+	}
+
+	Object.entries(changes).forEach(([key, value]) => {
+		if (value === undefined) {
+			delete task.data[key];
+		} else {
+			task.data[key] = value;
+		}
+	});
+
+	// Notes of a sync rule keep the rule's field names
+	await updateFrontmatter(plugin, task.file, task.rule ? toRuleFields(plugin, task.rule, changes) : changes);
+}
+
+// Builds the content of a new note with the given frontmatter data and body
+export function buildNoteContent(data: TaskData, body: string = ''): string {
+	return `---\n${stringify(data, YAML_OPTIONS)}---\n${body ? `\n${body.trim()}\n` : ''}`;
+}
+
+// Returns a vault path for a new note in the folder that doesn't collide with an existing file
+export function getAvailableNotePath(vault: Vault, folderPath: string, title: string): string {
+	const baseName = title.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Untitled';
+	let notePath = `${folderPath}/${baseName}.md`;
+
+	for (let counter = 1; vault.getAbstractFileByPath(notePath); counter++) {
+		notePath = `${folderPath}/${baseName} (${counter}).md`;
+	}
+
+	return notePath;
 }
 
 export async function moveTaskToFolder(
@@ -164,3 +509,90 @@ export function findMatchingFolderPairs(
   // Return only entries where both a `searchPath` and a `donePath` are defined
   return Object.fromEntries(Object.entries(folderPairs).filter(([, paths]) => paths.searchPath && paths.donePath));
 }
+
+// Returns the parent path of the folder pair whose search or done folder contains the file
+export function getFolderPairPathForFile(
+  folderPairs: Record<string, { searchPath: string; donePath: string }>,
+  file: TFile
+): string | undefined {
+  return Object.keys(folderPairs).find(parent =>
+    file.path.startsWith(`${folderPairs[parent].searchPath}/`) || file.path.startsWith(`${folderPairs[parent].donePath}/`)
+  );
+}
+
+// Resolves the target calendar of a task: note override, then sync rule, then folder pair, then default calendar
+export function getCalendarIdForTask(
+  plugin: GoogleCalendarTaskSync,
+  task: ObsidianTask,
+  folderPairs?: Record<string, { searchPath: string; donePath: string }>
+): string {
+  const { fieldMappings, folderPairSettings, defaultCalendarId } = plugin.settings;
+
+  const noteCalendarId = fieldMappings.calendar ? task.data[fieldMappings.calendar] : undefined;
+  if (noteCalendarId) {
+    return String(noteCalendarId).trim();
+  }
+
+  if (task.rule?.calendarId) {
+    return task.rule.calendarId;
+  }
+
+  const pairs = folderPairs ?? findMatchingFolderPairs(
+    plugin,
+    plugin.app.vault,
+    plugin.settings.taskFolderPath,
+    plugin.settings.searchFolderName,
+    plugin.settings.doneFolderName
+  );
+  const pairPath = getFolderPairPathForFile(pairs, task.file);
+
+  return (pairPath && folderPairSettings[pairPath]?.calendarId) || defaultCalendarId || 'primary';
+}
+
+// Returns all calendars the plugin syncs to
+export function getConfiguredCalendarIds(plugin: GoogleCalendarTaskSync): string[] {
+  const calendarIds = [...Object.values(plugin.settings.folderPairSettings), ...(plugin.settings.syncRules ?? [])]
+    .map(settings => settings.calendarId)
+    .filter((calendarId): calendarId is string => !!calendarId);
+
+  if (plugin.settings.completionMode === 'keep' && plugin.settings.doneCalendarId) {
+    calendarIds.push(plugin.settings.doneCalendarId);
+  }
+
+  return [...new Set([plugin.settings.defaultCalendarId || 'primary', ...calendarIds])];
+}
+
+// Resolves whether a task syncs as a calendar event or a Google Task: note override, then sync rule, then folder pair, then default
+export function getSyncModeForTask(
+  plugin: GoogleCalendarTaskSync,
+  task: ObsidianTask,
+  folderPairs: Record<string, { searchPath: string; donePath: string }>
+): SyncMode {
+  const { fieldMappings, folderPairSettings, defaultSyncMode } = plugin.settings;
+
+  const noteSyncMode = fieldMappings.syncMode ? String(task.data[fieldMappings.syncMode] ?? '').trim().toLowerCase() : '';
+  if (noteSyncMode === 'event' || noteSyncMode === 'task') {
+    return noteSyncMode;
+  }
+
+  if (task.rule?.syncMode) {
+    return task.rule.syncMode;
+  }
+
+  const pairPath = getFolderPairPathForFile(folderPairs, task.file);
+  return (pairPath && folderPairSettings[pairPath]?.syncMode) || defaultSyncMode || 'event';
+}
+
+// Resolves the Google Tasks list of a task from its sync rule or folder pair
+export function getTaskListIdForTask(
+  plugin: GoogleCalendarTaskSync,
+  task: ObsidianTask,
+  folderPairs: Record<string, { searchPath: string; donePath: string }>
+): string {
+  if (task.rule?.taskListId) {
+    return task.rule.taskListId;
+  }
+
+  const pairPath = getFolderPairPathForFile(folderPairs, task.file);
+  return (pairPath && plugin.settings.folderPairSettings[pairPath]?.taskListId) || plugin.settings.defaultTaskListId || '@default';
+}
@@ -0,0 +1,174 @@
+import GoogleCalendarTaskSync from './main';
+import { calendar_v3 } from 'googleapis';
+import { debugLog } from './logger';
+import { SendUpdates } from './settings';
+
+// Google accepts at most 50 operations per batch HTTP request
+export const MAX_BATCH_SIZE = 50;
+
+const CALENDAR_BATCH_URL = 'https://www.googleapis.com/batch/calendar/v3';
+
+export interface BatchRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;                   // API path including the version, e.g. `/calendar/v3/calendars/primary/events`
+  query?: Record<string, string>;
+  body?: calendar_v3.Schema$Event;
+}
+
+// The event an operation read or wrote, or the error of a failed operation
+export type BatchResponseBody = calendar_v3.Schema$Event & { error?: { message?: string } };
+
+export interface BatchResponse {
+  status: number;
+  body: BatchResponseBody;        // Parsed JSON body, a body that isn't JSON is kept as the error message
+}
+
+/**
+ * Sends the requests as Google batch HTTP requests, 50 operations at a time.
+ * The responses are returned in the order of the requests; a failed operation
+ * only fails its own response, the other operations of the batch still apply.
+ */
+export async function executeBatch(
+  plugin: GoogleCalendarTaskSync,
+  requests: BatchRequest[],
+  batchUrl: string = CALENDAR_BATCH_URL
+): Promise<BatchResponse[]> {
+  if (!plugin.oAuth2Client) {
+    throw new Error("OAuth2 client is not initialized. Please authenticate with Google.");
+  }
+
+  const responses: BatchResponse[] = [];
+
+  for (let start = 0; start < requests.length; start += MAX_BATCH_SIZE) {
+    const chunk = requests.slice(start, start + MAX_BATCH_SIZE);
+    const boundary = `batch_${Date.now()}_${start}`;
+
+    const response = await plugin.oAuth2Client.request<string>({
+      url: batchUrl,
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+      data: buildBatchBody(chunk, boundary),
+      responseType: 'text',
+    });
+
+    const contentType = String(response.headers['content-type'] || '');
+    const responseBoundary = contentType.match(/boundary=([^;]+)/)?.[1]?.replace(/"/g, '');
+    if (!responseBoundary) {
+      throw new Error(`Unexpected batch response content type: ${contentType}`);
+    }
+
+    responses.push(...parseBatchResponse(response.data, responseBoundary, chunk.length));
+    debugLog(plugin, `Batch request with ${chunk.length} operations completed.`);
+  }
+
+  return responses;
+}
+
+/**
+ * Builds the multipart body, each part carries its index as Content-ID to map the responses back.
+ */
+function buildBatchBody(requests: BatchRequest[], boundary: string): string {
+  const parts = requests.map((request, index) => {
+    const query = request.query ? `?${new URLSearchParams(request.query).toString()}` : '';
+    const lines = [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <item-${index}>`,
+      '',
+      `${request.method} ${request.path}${query} HTTP/1.1`,
+    ];
+
+    if (request.body !== undefined) {
+      lines.push('Content-Type: application/json', '', JSON.stringify(request.body));
+    } else {
+      lines.push('');
+    }
+
+    return lines.join('\r\n');
+  });
+
+  return `${parts.join('\r\n')}\r\n--${boundary}--\r\n`;
+}
+
+/**
+ * Splits the multipart response into the single responses, ordered by their Content-ID.
+ */
+function parseBatchResponse(data: string, boundary: string, expectedCount: number): BatchResponse[] {
+  const responses: BatchResponse[] = new Array(expectedCount).fill(null).map(() => ({
+    status: 500,
+    body: { error: { message: 'No response for this operation in the batch response.' } },
+  }));
+
+  const parts = data.split(`--${boundary}`).slice(1, -1);
+  parts.forEach((part, partIndex) => {
+    const contentId = part.match(/Content-ID:\s*<response-item-(\d+)>/i);
+    const index = contentId ? Number(contentId[1]) : partIndex;
+
+    const statusLine = part.match(/HTTP\/[\d.]+ (\d{3})/);
+    const responsePart = statusLine ? part.slice(part.indexOf(statusLine[0])) : '';
+    const headerEnd = responsePart.match(/\r?\n\r?\n/);
+    const rawBody = headerEnd?.index !== undefined ? responsePart.slice(headerEnd.index + headerEnd[0].length).trim() : '';
+
+    let body: BatchResponseBody = {};
+    try {
+      body = rawBody ? JSON.parse(rawBody) : {};
+    } catch {
+      body = { error: { message: rawBody } };
+    }
+
+    if (index < expectedCount) {
+      responses[index] = { status: statusLine ? Number(statusLine[1]) : 500, body };
+    }
+  });
+
+  return responses;
+}
+
+// Errors of the Google API clients carry the HTTP status as `code`
+export function isApiError(error: unknown, code: number): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === code;
+}
+
+/**
+ * Extracts a readable error message from a failed batch response.
+ */
+export function getBatchErrorMessage(response: BatchResponse): string {
+  return response.body?.error?.message || `Request failed with status ${response.status}`;
+}
+
+function eventsPath(calendarId: string): string {
+  return `/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`;
+}
+
+export function buildEventGetRequest(calendarId: string, eventId: string): BatchRequest {
+  return { method: 'GET', path: `${eventsPath(calendarId)}/${encodeURIComponent(eventId)}` };
+}
+
+// Writes without `sendUpdates` don't notify the attendees of the event
+function sendUpdatesQuery(sendUpdates?: SendUpdates): Record<string, string> | undefined {
+  return sendUpdates ? { sendUpdates } : undefined;
+}
+
+export function buildEventInsertRequest(calendarId: string, event: calendar_v3.Schema$Event, sendUpdates?: SendUpdates): BatchRequest {
+  return { method: 'POST', path: eventsPath(calendarId), query: sendUpdatesQuery(sendUpdates), body: event };
+}
+
+export function buildEventUpdateRequest(calendarId: string, eventId: string, event: calendar_v3.Schema$Event, sendUpdates?: SendUpdates): BatchRequest {
+  return { method: 'PUT', path: `${eventsPath(calendarId)}/${encodeURIComponent(eventId)}`, query: sendUpdatesQuery(sendUpdates), body: event };
+}
+
+export function buildEventPatchRequest(calendarId: string, eventId: string, event: calendar_v3.Schema$Event, sendUpdates?: SendUpdates): BatchRequest {
+  return { method: 'PATCH', path: `${eventsPath(calendarId)}/${encodeURIComponent(eventId)}`, query: sendUpdatesQuery(sendUpdates), body: event };
+}
+
+export function buildEventDeleteRequest(calendarId: string, eventId: string, sendUpdates?: SendUpdates): BatchRequest {
+  return { method: 'DELETE', path: `${eventsPath(calendarId)}/${encodeURIComponent(eventId)}`, query: sendUpdatesQuery(sendUpdates) };
+}
+
+export function buildEventMoveRequest(calendarId: string, eventId: string, destinationCalendarId: string): BatchRequest {
+  return {
+    method: 'POST',
+    path: `${eventsPath(calendarId)}/${encodeURIComponent(eventId)}/move`,
+    query: { destination: destinationCalendarId },
+  };
+}
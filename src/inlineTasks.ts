@@ -0,0 +1,249 @@
+import { TFile } from "obsidian";
+import GoogleCalendarTaskSync from "./main";
+import { debugLog } from "./logger";
+import { ObsidianTask, TaskData } from "./dataFetchers";
+
+// A checklist line synced as its own task, linked to its event by the block id at the end of the line
+export interface InlineTask {
+  blockId: string;            // `gcal-xxxxxx`, written into the line once the task is synced
+  line: number;               // Line number when the note was read
+  text: string;               // Line as it was read
+  details: string;            // Indented lines below the task, used as description
+}
+
+const CHECKLIST_PATTERN = /^(\s*(?:[-*+]|\d+[.)]) \[)(.)(\]\s+)(.*)$/;
+const BLOCK_ID_PATTERN = /\s+\^([\w-]+)\s*$/;
+const SYNC_BLOCK_ID_PATTERN = /^gcal-[a-z0-9]+$/;
+
+// Dataview inline fields like `[due:: 2026-10-21]` or `(time:: 14:00)`
+const DATAVIEW_FIELD_PATTERN = /[[(]([\w-]+)::\s*([^\])]*?)\s*[\])]/g;
+
+// Tasks plugin signifiers: 📅 due, ⏳ scheduled, 🛫 start, ⏰ time, ✅ done, ➕ created, ❌ cancelled
+const TASKS_DATE_PATTERN = /(📅|⏳|🛫|✅|➕|❌)️?\s*(\d{4}-\d{2}-\d{2})/gu;
+const TASKS_TIME_PATTERN = /⏰️?\s*(\d{1,2}:\d{2})/u;
+const TASKS_RECURRENCE_PATTERN = /🔁️?\s*[^📅⏳🛫✅➕❌⏰⏫🔼🔽🔺⏬[(^]*/u;
+const TASKS_PRIORITY_PATTERN = /[⏫🔼🔽🔺⏬]️?/gu;
+
+// Start of the task metadata, the text before it is the task name
+const METADATA_PATTERN = /[📅⏳🛫✅➕❌⏰🔁⏫🔼🔽🔺⏬]|[[(][\w-]+::|\s\^[\w-]+\s*$/u;
+
+// Frontmatter keys of note tasks that inline tasks keep in the sync state only
+const LINK_FIELDS = ['googleEventId', 'googleCalendarId', 'googleTaskId', 'googleTaskListId'];
+
+/**
+ * Returns the checklist tasks with a date in the notes of the inline task folder, shaped like
+ * note tasks: `data` holds the line's values under the mapped field names. Checked lines are
+ * only included once they are linked, so checking the box runs the done behavior.
+ */
+export async function fetchInlineTasks(plugin: GoogleCalendarTaskSync): Promise<ObsidianTask[]> {
+  const tasks: ObsidianTask[] = [];
+  const taskFiles = plugin.app.vault.getMarkdownFiles().filter(file => isInlineTaskFile(plugin, file));
+
+  for (const file of taskFiles) {
+    const listItems = plugin.app.metadataCache.getFileCache(file)?.listItems;
+    if (!listItems?.some(item => item.task !== undefined)) {
+      continue;
+    }
+
+    const lines = (await plugin.app.vault.cachedRead(file)).split('\n');
+    lines.forEach((text, line) => {
+      const checklist = text.match(CHECKLIST_PATTERN);
+      if (!checklist) {
+        return;
+      }
+
+      // A line can only have one block id, a line with an own one is linked through it
+      const blockId = text.match(BLOCK_ID_PATTERN)?.[1];
+      const isLinked = !!blockId && (SYNC_BLOCK_ID_PATTERN.test(blockId) || !!plugin.settings.syncState[`${file.path}#^${blockId}`]);
+      const data = parseInlineTaskData(plugin, checklist[2], checklist[4]);
+      const hasDate = !!data[plugin.settings.fieldMappings.start];
+      if (!isLinked && (!hasDate || checklist[2] !== ' ')) {
+        return;
+      }
+
+      const inline: InlineTask = {
+        blockId: blockId ?? createBlockId(),
+        line,
+        text,
+        details: getDetails(lines, line),
+      };
+      tasks.push({ name: data[plugin.settings.fieldMappings.name], data, file, inline });
+    });
+  }
+
+  debugLog(plugin, `Found ${tasks.length} inline tasks.`);
+  return tasks;
+}
+
+// Notes inline tasks are read from: all notes below the inline task folder, the whole vault if it is empty
+export function isInlineTaskFile(plugin: GoogleCalendarTaskSync, file: TFile): boolean {
+  const { syncInlineTasks, inlineTaskFolder } = plugin.settings;
+  const folder = inlineTaskFolder.trim().replace(/\/+$/, '');
+  return syncInlineTasks && file.extension === 'md' && (!folder || file.path.startsWith(`${folder}/`));
+}
+
+/**
+ * Writes the changed values into the task's line: the status checks the box, dates update the
+ * Tasks signifiers or Dataview fields they were read from, other fields become Dataview fields.
+ * The block id is added on the first write, the event and calendar ids live in the sync state.
+ */
+export async function updateInlineTask(plugin: GoogleCalendarTaskSync, task: ObsidianTask, changes: TaskData): Promise<void> {
+  const { fieldMappings, deleteStatus } = plugin.settings;
+  const inline = task.inline!;
+  const lines = (await plugin.app.vault.read(task.file)).split('\n');
+
+  // The line may have moved since it was read, a linked line is found by its block id
+  let index = lines.findIndex(line => line.match(BLOCK_ID_PATTERN)?.[1] === inline.blockId);
+  if (index === -1) {
+    index = lines[inline.line] === inline.text ? inline.line : lines.indexOf(inline.text);
+  }
+  if (index === -1) {
+    throw new Error(`Task line "${task.name}" not found in "${task.file.path}"`);
+  }
+
+  let line = lines[index];
+  for (const [key, value] of Object.entries(changes)) {
+    if (LINK_FIELDS.includes(key)) {
+      continue;
+    }
+
+    if (key === fieldMappings.status) {
+      line = line.replace(CHECKLIST_PATTERN, (_, start, __, end, rest) =>
+        `${start}${String(value ?? '').trim() === deleteStatus.trim() ? 'x' : ' '}${end}${rest}`);
+    } else if (key === fieldMappings.start) {
+      line = setInlineDate(line, key, value);
+    } else if (key === fieldMappings.name) {
+      line = setInlineName(line, String(value ?? ''));
+    } else {
+      line = setDataviewField(line, key, value);
+    }
+    if (value === undefined) {
+      delete task.data[key];
+    } else {
+      task.data[key] = value;
+    }
+  }
+
+  if (!BLOCK_ID_PATTERN.test(line)) {
+    line = `${line.trimEnd()} ^${inline.blockId}`;
+  }
+
+  if (line !== lines[index]) {
+    lines[index] = line;
+    await plugin.app.vault.modify(task.file, lines.join('\n'));
+  }
+  Object.assign(inline, { line: index, text: line });
+}
+
+// Reads the values of a checklist line into the field names the event mapping uses
+function parseInlineTaskData(plugin: GoogleCalendarTaskSync, checkbox: string, text: string): TaskData {
+  const mappings = plugin.settings.fieldMappings;
+  const data: TaskData = {};
+
+  for (const [, key, value] of text.matchAll(DATAVIEW_FIELD_PATTERN)) {
+    data[key] = value;
+  }
+
+  const tasksDates: Record<string, string> = {};
+  for (const [, signifier, date] of text.matchAll(TASKS_DATE_PATTERN)) {
+    tasksDates[signifier] = date;
+  }
+
+  const date = tasksDates['📅'] ?? data.due ?? tasksDates['⏳'] ?? data.scheduled;
+  const time = text.match(TASKS_TIME_PATTERN)?.[1] ?? data.time;
+  if (date) {
+    data[mappings.start] = time && /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T${time.padStart(5, '0')}` : date;
+  }
+
+  data[mappings.name] = text
+    .replace(BLOCK_ID_PATTERN, '')
+    .replace(DATAVIEW_FIELD_PATTERN, '')
+    .replace(TASKS_DATE_PATTERN, '')
+    .replace(TASKS_TIME_PATTERN, '')
+    .replace(TASKS_RECURRENCE_PATTERN, '')
+    .replace(TASKS_PRIORITY_PATTERN, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Any checked state (`x`, `-` for cancelled) counts as done
+  data[mappings.status] = checkbox !== ' ' ? plugin.settings.deleteStatus : '';
+  return data;
+}
+
+// Sets a `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm` value where the line keeps its date
+function setInlineDate(line: string, key: string, value: unknown): string {
+  const [date, time] = String(value ?? '').split('T');
+  const dataviewKey = [key, 'due', 'scheduled'].find(field => hasDataviewField(line, field));
+
+  if (dataviewKey || !/📅|⏳/u.test(line)) {
+    // A separate time field keeps the time, the date field only the date then
+    if (hasDataviewField(line, 'time')) {
+      return setDataviewField(setDataviewField(line, dataviewKey ?? key, date || undefined), 'time', time?.slice(0, 5));
+    }
+    return setDataviewField(line, dataviewKey ?? key, value || undefined);
+  }
+
+  const signifier = /📅/u.test(line) ? '📅' : '⏳';
+  line = line.replace(new RegExp(`${signifier}\\uFE0F?\\s*\\d{4}-\\d{2}-\\d{2}`, 'u'), `${signifier} ${date}`);
+
+  if (time) {
+    const timeValue = `⏰ ${time.slice(0, 5)}`;
+    line = TASKS_TIME_PATTERN.test(line)
+      ? line.replace(TASKS_TIME_PATTERN, timeValue)
+      : line.replace(new RegExp(`(${signifier} ${date})`, 'u'), `$1 ${timeValue}`);
+  } else {
+    line = line.replace(new RegExp(`\\s*${TASKS_TIME_PATTERN.source}`, 'u'), '');
+  }
+  return line;
+}
+
+function setInlineName(line: string, name: string): string {
+  return line.replace(CHECKLIST_PATTERN, (_, start, checkbox, end, rest: string) => {
+    const metadataIndex = rest.search(METADATA_PATTERN);
+    const metadata = metadataIndex === -1 ? '' : ` ${rest.slice(metadataIndex).trim()}`;
+    return `${start}${checkbox}${end}${name}${metadata}`;
+  });
+}
+
+// Replaces, removes (`undefined`) or adds the Dataview field, added fields go before the block id
+function setDataviewField(line: string, key: string, value: unknown): string {
+  const fieldPattern = new RegExp(`\\s*([[(])${key}::[^\\])]*[\\])]`);
+  if (fieldPattern.test(line)) {
+    return value === undefined
+      ? line.replace(fieldPattern, '')
+      : line.replace(fieldPattern, (match, bracket: string) =>
+        `${match.match(/^\s*/)![0]}${bracket}${key}:: ${value}${bracket === '[' ? ']' : ')'}`);
+  }
+  if (value === undefined || value === '') {
+    return line;
+  }
+
+  const blockId = line.match(BLOCK_ID_PATTERN);
+  const field = `[${key}:: ${value}]`;
+  return blockId
+    ? `${line.slice(0, blockId.index).trimEnd()} ${field}${blockId[0]}`
+    : `${line.trimEnd()} ${field}`;
+}
+
+function hasDataviewField(line: string, key: string): boolean {
+  return new RegExp(`[[(]${key}::`).test(line);
+}
+
+// Lines indented below the task, up to the next line at the task's level
+function getDetails(lines: string[], taskLine: number): string {
+  const indent = lines[taskLine].match(/^\s*/)![0].length;
+  const details: string[] = [];
+
+  for (let index = taskLine + 1; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.trim() && line.match(/^\s*/)![0].length <= indent) {
+      break;
+    }
+    details.push(line);
+  }
+  return details.join('\n').replace(/^\s*\n|\n\s*$/g, '').replace(new RegExp(`^[ \\t]{1,${indent + 4}}`, 'gm'), '');
+}
+
+function createBlockId(): string {
+  return `gcal-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -7,6 +7,11 @@ export function debugLog(plugin: GoogleCalendarTaskSync, message: string): void
   }
 }
 
+// Message of a caught value, which doesn't have to be an Error
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 export async function writeErrorLogs(filePath: string, logs: string[]) {
 	const content = logs.join('\n\n');
 	await fs.promises.writeFile(filePath, content, 'utf-8');
@@ -8,6 +8,9 @@ import { OAuth2Client } from 'google-auth-library';
 import { GoogleCalendarSettingTab } from './obsidianSettingsTab';
 import {google} from "googleapis";
 import {debugLog} from "./logger";
+import { registerAutoSync } from './autoSync';
+import { registerSyncStateEvents } from './syncState';
+import { registerDeletedNoteEvents } from './deletedNotes';
 
 export default class GoogleCalendarTaskSync extends Plugin {
   settings: PluginSettings;
@@ -15,6 +18,8 @@ export default class GoogleCalendarTaskSync extends Plugin {
   tokenFilePath: string;
   redirectUri: string;
   server?: http.Server;
+  syncInProgress = false;
+  autoSyncIntervalId: number | null = null;
 
   async onload() {
 
@@ -50,8 +55,17 @@ export default class GoogleCalendarTaskSync extends Plugin {
     // Other initialization code
     this.addSettingTab(new GoogleCalendarSettingTab(this.app, this));
 
-    // Register commands (Quick Sync, Full Sync etc.)
+    // Register commands (Sync, Preview Sync etc.)
     const { addCommands } = await import('./obsidianCommands');
 	addCommands(this);
+
+	// Keep the note to event index in step with renamed notes
+	registerSyncStateEvents(this);
+
+	// Apply the deleted-note action when task notes are deleted
+	registerDeletedNoteEvents(this);
+
+	// Background sync on startup, on an interval and on note changes
+	registerAutoSync(this);
   }
 }
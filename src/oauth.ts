@@ -5,7 +5,7 @@ import { saveSettings } from './settings';
 import * as http from 'http';
 import { Notice } from 'obsidian';
 import {decryptData, encryptData} from './encryptionHandler';
-import { debugLog } from './logger';
+import { debugLog, getErrorMessage } from './logger';
 
 let server: http.Server | undefined; // Holds the server instance
 
@@ -72,7 +72,7 @@ export function initializeOAuthClient(
         debugLog(plugin, "OAuth2 client successfully initialized with token data.");
         return; // Exit if token data is successfully used
       } catch (error) {
-        throw new Error(`Failed to parse provided token data: ${error.message}`);
+        throw new Error(`Failed to parse provided token data: ${getErrorMessage(error)}`);
       }
     }
 
@@ -160,11 +160,12 @@ function handleOAuthCallback(req: http.IncomingMessage, res: http.ServerResponse
  */
 async function exchangeCodeForTokens(plugin: GoogleCalendarTaskSync, code: string): Promise<void> {
   try {
-    const { tokens } = await plugin.oAuth2Client.getToken({
+    const oAuth2Client = getOAuth2Client(plugin);
+    const { tokens } = await oAuth2Client.getToken({
       code,
       redirect_uri: plugin.redirectUri,
     });
-    plugin.oAuth2Client.setCredentials(tokens);
+    oAuth2Client.setCredentials(tokens);
     plugin.settings.encTokenData = encryptData(plugin, JSON.stringify(tokens));
     await saveSettings(plugin, plugin.settings);
     new Notice("Google Calendar API authorized successfully and tokens saved.");
@@ -178,9 +179,9 @@ async function exchangeCodeForTokens(plugin: GoogleCalendarTaskSync, code: strin
  * Generates the Google authentication URL.
  */
 function generateAuthUrl(plugin: GoogleCalendarTaskSync, redirectUri: string): string {
-  return plugin.oAuth2Client.generateAuthUrl({
+  return getOAuth2Client(plugin).generateAuthUrl({
     access_type: "offline",
-    scope: ["https://www.googleapis.com/auth/calendar"],
+    scope: ["https://www.googleapis.com/auth/calendar", "https://www.googleapis.com/auth/tasks"],
     redirect_uri: redirectUri,
   });
 }
@@ -254,3 +255,13 @@ export async function refreshAccessToken(plugin: GoogleCalendarTaskSync): Promis
     new Notice("Failed to refresh access token.");
   }
 }
+
+/**
+ * Returns the OAuth2 client for Google API calls, throws if the plugin isn't authenticated yet.
+ */
+export function getOAuth2Client(plugin: GoogleCalendarTaskSync): OAuth2Client {
+  if (!plugin.oAuth2Client) {
+    throw new Error("OAuth2 client is not initialized. Please authenticate with Google.");
+  }
+  return plugin.oAuth2Client;
+}
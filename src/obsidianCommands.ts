@@ -1,17 +1,61 @@
 import GoogleCalendarTaskSync from "./main";
-import { syncGoogleCalendarWithObsidian } from "./calendarSync"
+import { Notice } from "obsidian";
+import { previewSyncGoogleCalendarWithObsidian, syncGoogleCalendarWithObsidian } from "./calendarSync"
+import { adoptLinkedEvents, importGoogleEventsAsTasks, removeDuplicateEvents } from "./taskAndEventOperators";
+import { findMatchingFolderPairs } from "./fileHelpers";
+import { FolderSuggestModal } from "./obsidianModals";
 
 
 export function addCommands(plugin: GoogleCalendarTaskSync) {
+  // Quick and full sync were merged, the ids of both are kept so bound hotkeys still work
+  plugin.addCommand({
+    id: 'full-sync-obsidian-to-google',
+    name: 'Sync Obsidian Tasks to Google Calendar',
+    callback: () => syncGoogleCalendarWithObsidian(plugin, 'task'),
+  });
+
   plugin.addCommand({
     id: 'quick-sync-obsidian-to-google',
-    name: 'Quick Sync Obsidian Tasks to Google Calendar',
-    callback: () => syncGoogleCalendarWithObsidian(plugin, 'task', true),
+    name: 'Quick Sync Obsidian Tasks to Google Calendar (same as Sync)',
+    callback: () => syncGoogleCalendarWithObsidian(plugin, 'task'),
   });
 
   plugin.addCommand({
-    id: 'full-sync-obsidian-to-google',
-    name: 'Full Sync Obsidian Tasks to Google Calendar',
-    callback: () => syncGoogleCalendarWithObsidian(plugin, 'task', false),
+    id: 'preview-sync-obsidian-to-google',
+    name: 'Preview Sync Obsidian Tasks to Google Calendar',
+    callback: () => previewSyncGoogleCalendarWithObsidian(plugin, 'task'),
+  });
+
+  plugin.addCommand({
+    id: 'import-google-events-as-tasks',
+    name: 'Import Upcoming Google Calendar Events as Tasks',
+    callback: () => {
+      const { taskFolderPath, searchFolderName, doneFolderName } = plugin.settings;
+      const folderPairs = findMatchingFolderPairs(plugin, plugin.app.vault, taskFolderPath, searchFolderName, doneFolderName);
+      const searchPaths = Object.values(folderPairs).map(({ searchPath }) => searchPath);
+
+      if (searchPaths.length === 0) {
+        new Notice(`No "${searchFolderName}" folders found in "${taskFolderPath}".`);
+        return;
+      }
+
+      new FolderSuggestModal(plugin.app, searchPaths, folderPath => {
+        const pairPath = Object.keys(folderPairs).find(parent => folderPairs[parent].searchPath === folderPath);
+        const calendarId = (pairPath && plugin.settings.folderPairSettings[pairPath]?.calendarId) || plugin.settings.defaultCalendarId;
+        importGoogleEventsAsTasks(plugin, folderPath, 'task', calendarId);
+      }).open();
+    },
+  });
+
+  plugin.addCommand({
+    id: 'adopt-linked-google-events',
+    name: 'Mark Linked Google Calendar Events as Created from Tasks',
+    callback: () => adoptLinkedEvents(plugin),
+  });
+
+  plugin.addCommand({
+    id: 'remove-duplicate-google-events',
+    name: 'Remove Duplicate Google Calendar Events Created from Tasks',
+    callback: () => removeDuplicateEvents(plugin),
   });
 }
@@ -0,0 +1,261 @@
+import { App, Modal, Setting, SuggestModal } from "obsidian";
+import { getItemCalendarIds, SyncPlan, SyncPlanItem } from "./calendarSync";
+import { DeletedNote } from "./deletedNotes";
+import { DeletedNoteAction } from "./settings";
+
+// Lets the user pick one of the given folder paths
+export class FolderSuggestModal extends SuggestModal<string> {
+  folderPaths: string[];
+  onChoose: (folderPath: string) => void;
+
+  constructor(app: App, folderPaths: string[], onChoose: (folderPath: string) => void) {
+    super(app);
+    this.folderPaths = folderPaths;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose the folder for the imported tasks");
+  }
+
+  getSuggestions(query: string): string[] {
+    return this.folderPaths.filter(folderPath => folderPath.toLowerCase().includes(query.toLowerCase()));
+  }
+
+  renderSuggestion(folderPath: string, el: HTMLElement) {
+    el.createEl("div", { text: folderPath });
+  }
+
+  onChooseSuggestion(folderPath: string) {
+    this.onChoose(folderPath);
+  }
+}
+
+export type ConflictResolution = 'note' | 'google' | 'skip';
+
+export interface ConflictFieldDiff {
+  field: string;
+  noteValue: string;
+  googleValue: string;
+}
+
+// Shows the fields that changed on both sides and lets the user pick the winning side
+export class ConflictModal extends Modal {
+  taskName: string;
+  fieldDiffs: ConflictFieldDiff[];
+  resolution: ConflictResolution = 'skip';
+  onResolve: (resolution: ConflictResolution) => void;
+
+  constructor(app: App, taskName: string, fieldDiffs: ConflictFieldDiff[], onResolve: (resolution: ConflictResolution) => void) {
+    super(app);
+    this.taskName = taskName;
+    this.fieldDiffs = fieldDiffs;
+    this.onResolve = onResolve;
+  }
+
+  // Opens the modal and resolves once the user has decided, closing it counts as "skip"
+  static ask(app: App, taskName: string, fieldDiffs: ConflictFieldDiff[]): Promise<ConflictResolution> {
+    return new Promise(resolve => new ConflictModal(app, taskName, fieldDiffs, resolve).open());
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl("h2", { text: `Sync conflict: ${this.taskName}` });
+    contentEl.createEl("p", { text: "The note and its Google Calendar event both changed since the last sync." });
+
+    const table = contentEl.createEl("table");
+    const headerRow = table.createEl("tr");
+    ["Field", "Note", "Google Calendar"].forEach(header => headerRow.createEl("th", { text: header }));
+
+    this.fieldDiffs.forEach(({ field, noteValue, googleValue }) => {
+      const row = table.createEl("tr");
+      row.createEl("td", { text: field });
+      row.createEl("td", { text: noteValue });
+      row.createEl("td", { text: googleValue });
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText("Keep note")
+        .setCta()
+        .onClick(() => this.resolveWith('note')))
+      .addButton(button => button
+        .setButtonText("Keep Google Calendar")
+        .onClick(() => this.resolveWith('google')))
+      .addButton(button => button
+        .setButtonText("Skip")
+        .onClick(() => this.resolveWith('skip')));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onResolve(this.resolution);
+  }
+
+  private resolveWith(resolution: ConflictResolution) {
+    this.resolution = resolution;
+    this.close();
+  }
+}
+
+// Asks the user to confirm an action, closing the modal counts as "no"
+export class ConfirmModal extends Modal {
+  title: string;
+  message: string;
+  confirmText: string;
+  confirmed = false;
+  onResolve: (confirmed: boolean) => void;
+
+  constructor(app: App, title: string, message: string, confirmText: string, onResolve: (confirmed: boolean) => void) {
+    super(app);
+    this.title = title;
+    this.message = message;
+    this.confirmText = confirmText;
+    this.onResolve = onResolve;
+  }
+
+  static ask(app: App, title: string, message: string, confirmText: string = "Confirm"): Promise<boolean> {
+    return new Promise(resolve => new ConfirmModal(app, title, message, confirmText, resolve).open());
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl("h2", { text: this.title });
+    contentEl.createEl("p", { text: this.message });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText(this.confirmText)
+        .setWarning()
+        .onClick(() => {
+          this.confirmed = true;
+          this.close();
+        }))
+      .addButton(button => button
+        .setButtonText("Cancel")
+        .onClick(() => this.close()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onResolve(this.confirmed);
+  }
+}
+
+const syncActionLabels: Record<string, string> = {
+  create: 'Create',
+  update: 'Update',
+  pull: 'Pull from Google',
+  delete: 'Delete',
+  complete: 'Complete',
+  none: 'No change',
+};
+
+const deletedNoteActionLabels: Record<DeletedNoteAction, string> = {
+  delete: 'delete its event',
+  cancel: 'cancel its event',
+  prefix: 'prefix the title of its event',
+  none: 'keep its event and remove the link',
+};
+
+// Lists the planned sync changes, unchecked items are left out when the plan is applied
+export class SyncPreviewModal extends Modal {
+  plan: SyncPlan;
+  items: SyncPlanItem[];
+  selectedItems: Set<SyncPlanItem>;
+  selectedDeletedNotes: Set<DeletedNote>;
+  deletedNoteAction: DeletedNoteAction;
+  onApply: (selectedPlan: SyncPlan) => void;
+
+  constructor(app: App, plan: SyncPlan, deletedNoteAction: DeletedNoteAction, onApply: (selectedPlan: SyncPlan) => void) {
+    super(app);
+    this.plan = plan;
+    this.deletedNoteAction = deletedNoteAction;
+    this.items = plan.items.filter(item => item.action !== 'none' || item.moveFromCalendarId || item.doneFolderPath);
+    this.selectedItems = new Set(this.items);
+    this.selectedDeletedNotes = new Set(plan.deletedNotes);
+    this.onApply = onApply;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl("h2", { text: "Sync preview" });
+
+    if (this.items.length === 0 && this.plan.deletedNotes.length === 0) {
+      contentEl.createEl("p", { text: "Everything is up to date, no changes would be made." });
+      return;
+    }
+
+    contentEl.createEl("p", {
+      text: `${this.items.length + this.plan.deletedNotes.length} tasks would change. Uncheck the ones to leave out.`,
+    });
+
+    this.items.forEach(item => {
+      const target = item.target === 'task' ? 'Google Task' : 'event';
+      const changes = [`${syncActionLabels[item.action]} ${target} in "${item.calendarId}"`];
+      if (item.moveFromCalendarId) {
+        changes.push(`move event from "${item.moveFromCalendarId}"`);
+      }
+      if (item.relinked) {
+        changes.push("link existing event again");
+      }
+      if (item.deletedInGoogle) {
+        changes.push("event was deleted in Google");
+      }
+      if (item.doneFolderPath) {
+        changes.push(`move note to "${item.doneFolderPath}"`);
+      }
+
+      new Setting(contentEl)
+        .setName(item.task.inline ? `${item.task.file.path}: ${item.task.name}` : item.task.file.path)
+        .setDesc(changes.join(", "))
+        .addToggle(toggle => toggle
+          .setValue(true)
+          .onChange(value => {
+            if (value) {
+              this.selectedItems.add(item);
+            } else {
+              this.selectedItems.delete(item);
+            }
+          }));
+    });
+
+    this.plan.deletedNotes.forEach(deletedNote => {
+      new Setting(contentEl)
+        .setName(deletedNote.notePath)
+        .setDesc(`Note was deleted, ${deletedNoteActionLabels[this.deletedNoteAction]}`)
+        .addToggle(toggle => toggle
+          .setValue(true)
+          .onChange(value => {
+            if (value) {
+              this.selectedDeletedNotes.add(deletedNote);
+            } else {
+              this.selectedDeletedNotes.delete(deletedNote);
+            }
+          }));
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText("Apply")
+        .setCta()
+        .onClick(() => {
+          this.close();
+          // Unchecked items aren't applied, Google has to report their changes again
+          const uncheckedItems = this.items.filter(item => !this.selectedItems.has(item));
+          this.onApply({
+            ...this.plan,
+            items: this.items.filter(item => this.selectedItems.has(item)),
+            heldCalendarIds: new Set([...this.plan.heldCalendarIds, ...uncheckedItems.flatMap(getItemCalendarIds)]),
+            deletedNotes: this.plan.deletedNotes.filter(deletedNote => this.selectedDeletedNotes.has(deletedNote)),
+          });
+        }))
+      .addButton(button => button
+        .setButtonText("Cancel")
+        .onClick(() => this.close()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
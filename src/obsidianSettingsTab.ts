@@ -1,13 +1,21 @@
 import { App, Notice, PluginSettingTab, Setting } from "obsidian";
-import {DEFAULT_SETTINGS, PluginSettings, saveSettings} from "./settings";
+import {CompletionMode, ConflictPolicy, DEFAULT_SETTINGS, DeletedNoteAction, PluginSettings, saveSettings, SendUpdates, StatusActionType, SyncMode, SyncRule} from "./settings";
 import { authenticateWithGoogle, initializeOAuthClient } from "./oauth";
 import { deleteAllGoogleEventsFromTasks } from "./taskAndEventOperators";
 import GoogleCalendarTaskSync from "./main";
 import { decryptData, encryptData } from "./encryptionHandler";
 import {debugLog} from "./logger";
+import { findMatchingFolderPairs } from "./fileHelpers";
+import { restartAutoSyncInterval } from "./autoSync";
+import { getSystemTimeZone, isValidTimeZone } from "./timeZones";
+import { isValidDuration } from "./durations";
+import { formatMappingOverrides, parseMappingOverrides, validateQuery } from "./syncRules";
+import { statusActionLabels } from "./statusActions";
 
 export class GoogleCalendarSettingTab extends PluginSettingTab {
   plugin: GoogleCalendarTaskSync;
+  private showSyncRules = false;  // Keeps the rules section open when it is redrawn after adding or deleting a rule
+  private showStatusActions = false;
 
   constructor(app: App, plugin: GoogleCalendarTaskSync) {
     super(app, plugin);
@@ -120,12 +128,12 @@ export class GoogleCalendarSettingTab extends PluginSettingTab {
     createFieldMappingSetting(fieldMappingsSetting, 'end', 'End Time', DEFAULT_SETTINGS.fieldMappings.end);
     createFieldMappingSetting(fieldMappingsSetting, 'name', 'Summary', DEFAULT_SETTINGS.fieldMappings.name);
 
-    const optionalMappings = ['description', 'location', 'status', 'attendees', 'colorId', 'reminders', 'recurrence', 'visibility'] as const;
+    const optionalMappings = ['description', 'location', 'status', 'attendees', 'colorId', 'reminders', 'recurrence', 'repeat', 'repeatOn', 'repeatUntil', 'repeatSkip', 'visibility', 'calendar', 'syncMode', 'timezone', 'duration', 'completed'] as const;
     optionalMappings.forEach(field => createFieldMappingSetting(fieldMappingsSetting, field, field.charAt(0).toUpperCase() + field.slice(1), ''));
 
     new Setting(containerEl)
       .setName('Delete Status Value')
-      .setDesc('Enter the status value which will trigger the deletion of the corresponding Google Calendar event.')
+      .setDesc('Enter the status value which will trigger the deletion of the corresponding Google Calendar event, unless the status actions below map it to another action.')
       .addText(text =>
         text
           .setPlaceholder('Enter status value to trigger event deletion')
@@ -136,6 +144,116 @@ export class GoogleCalendarSettingTab extends PluginSettingTab {
           })
       );
 
+    const completedTasksSetting = containerEl.createEl('details', { cls: 'collapsible' });
+    completedTasksSetting.createEl('summary', { text: 'Completed Tasks' });
+
+    new Setting(completedTasksSetting)
+      .setName('Completion Mode')
+      .setDesc('What happens to the event when a task reaches the delete status. Kept events move to the time in the completed field, if the note has one. The note moves to its done folder either way.')
+      .addDropdown(dropdown => dropdown
+        .addOption('delete', 'Delete the event')
+        .addOption('keep', 'Keep the event as history')
+        .setValue(this.plugin.settings.completionMode || 'delete')
+        .onChange(async (value) => {
+          this.plugin.settings.completionMode = value as CompletionMode;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    new Setting(completedTasksSetting)
+      .setName('Completed Prefix')
+      .setDesc('Title prefix of kept events of completed tasks.')
+      .addText(text =>
+        text
+          .setPlaceholder('✅ ')
+          .setValue(this.plugin.settings.completedPrefix)
+          .onChange(async (value) => {
+            this.plugin.settings.completedPrefix = value;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(completedTasksSetting)
+      .setName('Completed Color')
+      .setDesc('Google color ID (1-11) of kept events of completed tasks, empty keeps their color.')
+      .addText(text =>
+        text
+          .setPlaceholder('8')
+          .setValue(this.plugin.settings.completedColorId)
+          .onChange(async (value) => {
+            this.plugin.settings.completedColorId = value.trim();
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(completedTasksSetting)
+      .setName('Done Calendar')
+      .setDesc('Google calendar ID kept events of completed tasks move to, empty keeps them in their calendar.')
+      .addText(text =>
+        text
+          .setPlaceholder('Calendar ID')
+          .setValue(this.plugin.settings.doneCalendarId)
+          .onChange(async (value) => {
+            this.plugin.settings.doneCalendarId = value.trim();
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    const statusActionsSetting = containerEl.createEl('details', { cls: 'collapsible' });
+    statusActionsSetting.createEl('summary', { text: 'Status Actions' });
+    statusActionsSetting.open = this.showStatusActions;
+
+    statusActionsSetting.createEl('p', {
+      cls: 'setting-item-description',
+      text: 'What happens to the event when a note has the status value (case-insensitive). The value is the title prefix, the color ID (1-11) or the folder the note moves to. Statuses without an entry sync normally.',
+    });
+
+    (this.plugin.settings.statusActions ?? []).forEach((statusAction, index) => {
+      new Setting(statusActionsSetting)
+        .addText(text => text
+          .setPlaceholder('Status')
+          .setValue(statusAction.status)
+          .onChange(async (value) => {
+            statusAction.status = value;
+            await saveSettings(this.plugin, this.plugin.settings);
+          }))
+        .addDropdown(dropdown => dropdown
+          .addOptions(statusActionLabels)
+          .setValue(statusAction.action)
+          .onChange(async (value) => {
+            statusAction.action = value as StatusActionType;
+            await saveSettings(this.plugin, this.plugin.settings);
+          }))
+        .addText(text => text
+          .setPlaceholder('Value')
+          .setValue(statusAction.value || '')
+          .onChange(async (value) => {
+            statusAction.value = value || undefined;
+            await saveSettings(this.plugin, this.plugin.settings);
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Delete status action')
+          .onClick(async () => {
+            this.plugin.settings.statusActions.splice(index, 1);
+            await saveSettings(this.plugin, this.plugin.settings);
+            this.showStatusActions = true;
+            this.display();
+          }));
+    });
+
+    new Setting(statusActionsSetting)
+      .addButton(button => button
+        .setButtonText('Add Status Action')
+        .onClick(async () => {
+          this.plugin.settings.statusActions = [
+            ...(this.plugin.settings.statusActions ?? []),
+            { status: '', action: 'prefix' },
+          ];
+          await saveSettings(this.plugin, this.plugin.settings);
+          this.showStatusActions = true;
+          this.display();
+        }));
+
     new Setting(containerEl)
       .setName('Task Root Folder')
       .setDesc('Specify the root folder for tasks.')
@@ -175,6 +293,497 @@ export class GoogleCalendarSettingTab extends PluginSettingTab {
           })
       );
 
+    const rulesSetting = containerEl.createEl('details', { cls: 'collapsible' });
+    rulesSetting.createEl('summary', { text: 'Sync Rules' });
+    rulesSetting.open = this.showSyncRules;
+
+    rulesSetting.createEl('p', {
+      cls: 'setting-item-description',
+      text: 'Rules select the synced notes by a query instead of the task folders: #task/work or tag:task (nested tags included), folder:Projects, link:[[Client A]], has:due and frontmatter predicates like priority>=2 or status!=done. All terms of a query have to match, -term negates one. The first matching rule applies. Without rules, notes tagged "task" in the search folders are synced.',
+    });
+
+    (this.plugin.settings.syncRules ?? []).forEach((rule, index) => {
+      const ruleError = validateQuery(this.plugin, rule.query);
+      const updateRule = async (changes: Partial<SyncRule>) => {
+        Object.assign(rule, changes);
+        await saveSettings(this.plugin, this.plugin.settings);
+      };
+
+      new Setting(rulesSetting)
+        .setName(rule.name || `Rule ${index + 1}`)
+        .setDesc(ruleError ? `Invalid query: ${ruleError}` : 'Name, query and whether the rule is active.')
+        .addText(text => text
+          .setPlaceholder('Name')
+          .setValue(rule.name)
+          .onChange(value => updateRule({ name: value })))
+        .addText(text => text
+          .setPlaceholder('#task folder:Projects priority>=2')
+          .setValue(rule.query)
+          .onChange(value => updateRule({ query: value })))
+        .addToggle(toggle => toggle
+          .setValue(rule.enabled)
+          .onChange(value => updateRule({ enabled: value })))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Delete rule')
+          .onClick(async () => {
+            this.plugin.settings.syncRules.splice(index, 1);
+            await saveSettings(this.plugin, this.plugin.settings);
+            this.showSyncRules = true;
+            this.display();
+          }));
+
+      new Setting(rulesSetting)
+        .setDesc('Calendar ID, sync mode, task list ID and field names of the matched notes, e.g. "start=scheduled, name=title" (empty: defaults).')
+        .addText(text => text
+          .setPlaceholder(this.plugin.settings.defaultCalendarId || 'primary')
+          .setValue(rule.calendarId || '')
+          .onChange(value => updateRule({ calendarId: value.trim() || undefined })))
+        .addDropdown(dropdown => dropdown
+          .addOption('', 'Default mode')
+          .addOption('event', 'Calendar event')
+          .addOption('task', 'Google Task')
+          .setValue(rule.syncMode || '')
+          .onChange(value => updateRule({ syncMode: (value as SyncMode) || undefined })))
+        .addText(text => text
+          .setPlaceholder(this.plugin.settings.defaultTaskListId || '@default')
+          .setValue(rule.taskListId || '')
+          .onChange(value => updateRule({ taskListId: value.trim() || undefined })))
+        .addText(text => text
+          .setPlaceholder('start=scheduled')
+          .setValue(formatMappingOverrides(rule.fieldMappings))
+          .onChange(value => updateRule({ fieldMappings: parseMappingOverrides(value) })));
+    });
+
+    new Setting(rulesSetting)
+      .addButton(button => button
+        .setButtonText('Add Rule')
+        .onClick(async () => {
+          this.plugin.settings.syncRules = [
+            ...(this.plugin.settings.syncRules ?? []),
+            { id: Date.now().toString(36), name: '', enabled: true, query: '#task' },
+          ];
+          await saveSettings(this.plugin, this.plugin.settings);
+          this.showSyncRules = true;
+          this.display();
+        }));
+
+    const calendarsSetting = containerEl.createEl('details', { cls: 'collapsible' });
+    calendarsSetting.createEl('summary', { text: 'Calendars and Task Lists' });
+
+    new Setting(calendarsSetting)
+      .setName('Default Calendar')
+      .setDesc('Google calendar ID used for tasks without a folder pair or note calendar (a note can set its own calendar via the calendar field mapping).')
+      .addText(text =>
+        text
+          .setPlaceholder('primary')
+          .setValue(this.plugin.settings.defaultCalendarId || '')
+          .onChange(async (value) => {
+            this.plugin.settings.defaultCalendarId = value.trim() || 'primary';
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(calendarsSetting)
+      .setName('Default Sync Mode')
+      .setDesc('Sync notes as calendar events or as Google Tasks (a note can override this via the sync mode field mapping with "event" or "task"). Google Tasks requires re-authentication after updating.')
+      .addDropdown(dropdown => dropdown
+        .addOption('event', 'Calendar event')
+        .addOption('task', 'Google Task')
+        .setValue(this.plugin.settings.defaultSyncMode || 'event')
+        .onChange(async (value) => {
+          this.plugin.settings.defaultSyncMode = value as SyncMode;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    new Setting(calendarsSetting)
+      .setName('Default Task List')
+      .setDesc('Google Tasks list ID used for notes synced as Google Tasks.')
+      .addText(text =>
+        text
+          .setPlaceholder('@default')
+          .setValue(this.plugin.settings.defaultTaskListId || '')
+          .onChange(async (value) => {
+            this.plugin.settings.defaultTaskListId = value.trim() || '@default';
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(calendarsSetting)
+      .setName('Default Time Zone')
+      .setDesc('IANA time zone (e.g. Europe/Berlin) of task dates without a timezone field. Leave empty to use the system time zone.')
+      .addText(text =>
+        text
+          .setPlaceholder(getSystemTimeZone())
+          .setValue(this.plugin.settings.defaultTimeZone || '')
+          .onChange(async (value) => {
+            const timeZone = value.trim();
+            if (timeZone && !isValidTimeZone(timeZone)) {
+              return;
+            }
+            this.plugin.settings.defaultTimeZone = timeZone;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(calendarsSetting)
+      .setName('Default Duration')
+      .setDesc('Length of events whose note has no own end or duration, e.g. 30m or 1h30m.')
+      .addText(text =>
+        text
+          .setPlaceholder('30m')
+          .setValue(this.plugin.settings.defaultDuration || '')
+          .onChange(async (value) => {
+            if (!isValidDuration(value)) {
+              return;
+            }
+            this.plugin.settings.defaultDuration = value.trim();
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(calendarsSetting)
+      .setName('Normalize Dates')
+      .setDesc('Rewrite dates like "tomorrow 15:00", "next monday" or "20.10.2026" as ISO dates in the note when it is synced. Relative dates that stay in the note move along with the current day.')
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.normalizeDates)
+          .onChange(async (value) => {
+            this.plugin.settings.normalizeDates = value;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    const folderPairs = findMatchingFolderPairs(
+      this.plugin,
+      this.app.vault,
+      this.plugin.settings.taskFolderPath,
+      this.plugin.settings.searchFolderName,
+      this.plugin.settings.doneFolderName
+    );
+
+    Object.keys(folderPairs).forEach(pairPath => {
+      new Setting(calendarsSetting)
+        .setName(`Folder pair "${pairPath}"`)
+        .setDesc(`Google calendar ID, sync mode, task list ID and default duration for tasks in "${folderPairs[pairPath].searchPath}" (empty: defaults).`)
+        .addText(text =>
+          text
+            .setPlaceholder(this.plugin.settings.defaultCalendarId || 'primary')
+            .setValue(this.plugin.settings.folderPairSettings[pairPath]?.calendarId || '')
+            .onChange(async (value) => {
+              this.plugin.settings.folderPairSettings[pairPath] = {
+                ...this.plugin.settings.folderPairSettings[pairPath],
+                calendarId: value.trim() || undefined,
+              };
+              await saveSettings(this.plugin, this.plugin.settings);
+            })
+        )
+        .addDropdown(dropdown => dropdown
+          .addOption('', 'Default mode')
+          .addOption('event', 'Calendar event')
+          .addOption('task', 'Google Task')
+          .setValue(this.plugin.settings.folderPairSettings[pairPath]?.syncMode || '')
+          .onChange(async (value) => {
+            this.plugin.settings.folderPairSettings[pairPath] = {
+              ...this.plugin.settings.folderPairSettings[pairPath],
+              syncMode: (value as SyncMode) || undefined,
+            };
+            await saveSettings(this.plugin, this.plugin.settings);
+          }))
+        .addText(text =>
+          text
+            .setPlaceholder(this.plugin.settings.defaultTaskListId || '@default')
+            .setValue(this.plugin.settings.folderPairSettings[pairPath]?.taskListId || '')
+            .onChange(async (value) => {
+              this.plugin.settings.folderPairSettings[pairPath] = {
+                ...this.plugin.settings.folderPairSettings[pairPath],
+                taskListId: value.trim() || undefined,
+              };
+              await saveSettings(this.plugin, this.plugin.settings);
+            })
+        )
+        .addText(text =>
+          text
+            .setPlaceholder(this.plugin.settings.defaultDuration || '30m')
+            .setValue(this.plugin.settings.folderPairSettings[pairPath]?.defaultDuration || '')
+            .onChange(async (value) => {
+              if (!isValidDuration(value)) {
+                return;
+              }
+              this.plugin.settings.folderPairSettings[pairPath] = {
+                ...this.plugin.settings.folderPairSettings[pairPath],
+                defaultDuration: value.trim() || undefined,
+              };
+              await saveSettings(this.plugin, this.plugin.settings);
+            })
+        );
+    });
+
+    new Setting(containerEl)
+      .setName('Sync Inline Tasks')
+      .setDesc('Also sync checklist lines with a date, like "- [ ] Call supplier 📅 2026-10-21 ⏰ 14:00" or "- [ ] Call supplier [due:: 2026-10-21]". Synced lines get a ^gcal block id, checking the box completes them.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.syncInlineTasks)
+        .onChange(async (value) => {
+          this.plugin.settings.syncInlineTasks = value;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName('Inline Task Folder')
+      .setDesc('Folder whose notes are searched for inline tasks. Leave empty to search the whole vault.')
+      .addText(text =>
+        text
+          .setPlaceholder('Projects')
+          .setValue(this.plugin.settings.inlineTaskFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.inlineTaskFolder = value.trim();
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Two-Way Sync')
+      .setDesc('Pull changes made in Google Calendar (time, summary, location, color, attendees, reminders) back into the task notes.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.twoWaySync)
+        .onChange(async (value) => {
+          this.plugin.settings.twoWaySync = value;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    new Setting(containerEl)
+      .setName('Conflict Policy')
+      .setDesc('Decide what happens in two-way sync when both the note and its Google event changed since the last sync.')
+      .addDropdown(dropdown => dropdown
+        .addOption('note', 'Note wins')
+        .addOption('google', 'Google wins')
+        .addOption('newest', 'Newest change wins')
+        .addOption('ask', 'Ask')
+        .setValue(this.plugin.settings.conflictPolicy || 'note')
+        .onChange(async (value) => {
+          this.plugin.settings.conflictPolicy = value as ConflictPolicy;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    const autoSyncSetting = containerEl.createEl('details', { cls: 'collapsible' });
+    autoSyncSetting.createEl('summary', { text: 'Automatic Sync' });
+
+    new Setting(autoSyncSetting)
+      .setName('Sync Interval')
+      .setDesc('Minutes between background syncs (0 disables the interval).')
+      .addText(text =>
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.autoSyncInterval || 0))
+          .onChange(async (value) => {
+            const minutes = Number(value);
+            this.plugin.settings.autoSyncInterval = Number.isFinite(minutes) && minutes > 0 ? minutes : 0;
+            await saveSettings(this.plugin, this.plugin.settings);
+            restartAutoSyncInterval(this.plugin);
+          })
+      );
+
+    new Setting(autoSyncSetting)
+      .setName('Sync on Startup')
+      .setDesc('Run a sync when Obsidian starts.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.syncOnStartup)
+        .onChange(async (value) => {
+          this.plugin.settings.syncOnStartup = value;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    new Setting(autoSyncSetting)
+      .setName('Sync on Note Change')
+      .setDesc('Run a sync after notes in the search folders are created or modified.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.syncOnNoteChange)
+        .onChange(async (value) => {
+          this.plugin.settings.syncOnNoteChange = value;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    new Setting(autoSyncSetting)
+      .setName('Note Change Delay')
+      .setDesc('Seconds without further changes before a note change triggers the sync.')
+      .addText(text =>
+        text
+          .setPlaceholder('30')
+          .setValue(String(this.plugin.settings.noteChangeSyncDelay))
+          .onChange(async (value) => {
+            const seconds = Number(value);
+            this.plugin.settings.noteChangeSyncDelay = Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_SETTINGS.noteChangeSyncDelay;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    const descriptionsSetting = containerEl.createEl('details', { cls: 'collapsible' });
+    descriptionsSetting.createEl('summary', { text: 'Event Titles and Descriptions' });
+
+    new Setting(descriptionsSetting)
+      .setName('Title Template')
+      .setDesc('Event title built from {{placeholders}}: frontmatter fields, file, folder, path, body or section:Heading, with filters like {{due|date:DD.MM.}}, {{project|default:Inbox}} or {{name|upper}}. Empty uses the name field.')
+      .addText(text =>
+        text
+          .setPlaceholder('{{priority}} {{name}} ({{project}})')
+          .setValue(this.plugin.settings.summaryTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.summaryTemplate = value;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(descriptionsSetting)
+      .setName('Description Template')
+      .setDesc('Markdown of the event description with the same placeholders. Empty uses the description field or the note body.')
+      .addTextArea(textArea =>
+        textArea
+          .setPlaceholder('Project: {{project|default:none}}\n\n{{section:Notes}}')
+          .setValue(this.plugin.settings.descriptionTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.descriptionTemplate = value;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    Object.keys(folderPairs).forEach(pairPath => {
+      new Setting(descriptionsSetting)
+        .setName(`Templates of folder pair "${pairPath}"`)
+        .setDesc('Title and description template for tasks of this folder pair (empty: global templates).')
+        .addText(text =>
+          text
+            .setPlaceholder(this.plugin.settings.summaryTemplate || 'Title template')
+            .setValue(this.plugin.settings.folderPairSettings[pairPath]?.summaryTemplate || '')
+            .onChange(async (value) => {
+              this.plugin.settings.folderPairSettings[pairPath] = {
+                ...this.plugin.settings.folderPairSettings[pairPath],
+                summaryTemplate: value || undefined,
+              };
+              await saveSettings(this.plugin, this.plugin.settings);
+            })
+        )
+        .addTextArea(textArea =>
+          textArea
+            .setPlaceholder(this.plugin.settings.descriptionTemplate || 'Description template')
+            .setValue(this.plugin.settings.folderPairSettings[pairPath]?.descriptionTemplate || '')
+            .onChange(async (value) => {
+              this.plugin.settings.folderPairSettings[pairPath] = {
+                ...this.plugin.settings.folderPairSettings[pairPath],
+                descriptionTemplate: value || undefined,
+              };
+              await saveSettings(this.plugin, this.plugin.settings);
+            })
+        );
+    });
+
+    new Setting(descriptionsSetting)
+      .setName('Description Length Limit')
+      .setDesc('Characters of the note body (or description field) rendered into the event description. 0 renders the whole note.')
+      .addText(text =>
+        text
+          .setPlaceholder('2000')
+          .setValue(String(this.plugin.settings.descriptionMaxLength))
+          .onChange(async (value) => {
+            const length = Number(value);
+            this.plugin.settings.descriptionMaxLength = Number.isFinite(length) && length >= 0 ? length : DEFAULT_SETTINGS.descriptionMaxLength;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(descriptionsSetting)
+      .setName('Link to Note')
+      .setDesc('Add an "Open in Obsidian" link to event descriptions that opens the task note.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.addNoteLinkToDescription)
+        .onChange(async (value) => {
+          this.plugin.settings.addNoteLinkToDescription = value;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    const attendeesSetting = containerEl.createEl('details', { cls: 'collapsible' });
+    attendeesSetting.createEl('summary', { text: 'Attendees' });
+
+    new Setting(attendeesSetting)
+      .setName('Person Email Field')
+      .setDesc('Frontmatter field of person notes with the email address. Links to person notes in the attendees field, e.g. [[People/Jane Doe]], invite that address; add "(optional)" to make an attendee optional.')
+      .addText(text =>
+        text
+          .setPlaceholder('email')
+          .setValue(this.plugin.settings.personEmailField)
+          .onChange(async (value) => {
+            this.plugin.settings.personEmailField = value.trim() || DEFAULT_SETTINGS.personEmailField;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(attendeesSetting)
+      .setName('Send Invitations')
+      .setDesc('Whom Google emails invitations, updates and cancellations to when the sync changes an event with attendees.')
+      .addDropdown(dropdown => dropdown
+        .addOption('none', 'Nobody')
+        .addOption('externalOnly', 'Only attendees outside Google Calendar')
+        .addOption('all', 'All attendees')
+        .setValue(this.plugin.settings.sendUpdates || 'none')
+        .onChange(async (value) => {
+          this.plugin.settings.sendUpdates = value as SendUpdates;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    const deletedNotesSetting = containerEl.createEl('details', { cls: 'collapsible' });
+    deletedNotesSetting.createEl('summary', { text: 'Deleted Notes' });
+
+    new Setting(deletedNotesSetting)
+      .setName('Deleted Note Action')
+      .setDesc('What happens to the Google event or task of a task note that is deleted in the vault.')
+      .addDropdown(dropdown => dropdown
+        .addOption('delete', 'Delete the event')
+        .addOption('cancel', 'Mark the event cancelled')
+        .addOption('prefix', 'Prefix the event title')
+        .addOption('none', 'Keep the event')
+        .setValue(this.plugin.settings.deletedNoteAction || 'delete')
+        .onChange(async (value) => {
+          this.plugin.settings.deletedNoteAction = value as DeletedNoteAction;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    new Setting(deletedNotesSetting)
+      .setName('Deleted Prefix')
+      .setDesc('Title prefix used by the "Prefix the event title" action.')
+      .addText(text =>
+        text
+          .setPlaceholder('[Deleted] ')
+          .setValue(this.plugin.settings.deletedNotePrefix)
+          .onChange(async (value) => {
+            this.plugin.settings.deletedNotePrefix = value;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
+    new Setting(deletedNotesSetting)
+      .setName('Confirm Bulk Deletions')
+      .setDesc('Ask before the action is applied when many linked notes are deleted at once.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.confirmBulkDeletions)
+        .onChange(async (value) => {
+          this.plugin.settings.confirmBulkDeletions = value;
+          await saveSettings(this.plugin, this.plugin.settings);
+        }));
+
+    new Setting(deletedNotesSetting)
+      .setName('Bulk Deletion Threshold')
+      .setDesc('Number of deleted notes from which the confirmation is shown.')
+      .addText(text =>
+        text
+          .setPlaceholder('5')
+          .setValue(String(this.plugin.settings.bulkDeletionThreshold))
+          .onChange(async (value) => {
+            const count = Number(value);
+            this.plugin.settings.bulkDeletionThreshold = Number.isFinite(count) && count >= 1 ? count : DEFAULT_SETTINGS.bulkDeletionThreshold;
+            await saveSettings(this.plugin, this.plugin.settings);
+          })
+      );
+
     new Setting(containerEl)
       .setName('Log File Path')
       .setDesc('Specify the file path for logging errors (default: root folder if not set).')
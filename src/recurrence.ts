@@ -0,0 +1,216 @@
+import GoogleCalendarTaskSync from "./main";
+import { parseDateValue } from "./dateParser";
+import { getEventInstant, toWallClockDate, WallClockDate } from "./timeZones";
+import { TaskData } from "./dataFetchers";
+
+const FREQUENCIES: Record<string, string> = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY',
+};
+
+const FREQUENCY_NAMES: Record<string, string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  biweekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY',
+  annually: 'YEARLY',
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// RRULE parts the structured fields can express, rules using others are kept as raw lines
+const STRUCTURED_RULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL', 'WKST'];
+
+/**
+ * Builds the RRULE and EXDATE lines of the task's recurrence. The structured fields
+ * (`repeat: weekly`, `on: [mon, thu]`, `until: 2026-12-31`, `skip: [2026-11-05]`) take
+ * precedence over raw comma-separated lines in the recurrence field.
+ */
+export function buildRecurrence(plugin: GoogleCalendarTaskSync, taskData: TaskData, start: WallClockDate, timeZone: string): string[] | undefined {
+  const mappings = plugin.settings.fieldMappings;
+  const repeat = mappings.repeat ? String(taskData[mappings.repeat] ?? '').trim().toLowerCase() : '';
+
+  if (!repeat) {
+    if (mappings.recurrence && taskData[mappings.recurrence]) {
+      return String(taskData[mappings.recurrence]).split(',').map(line => line.trim()).filter(Boolean);
+    }
+    return undefined;
+  }
+
+  const [frequency, interval] = parseRepeat(repeat, mappings.repeat!);
+  const rule = [`FREQ=${frequency}`];
+  if (interval > 1) {
+    rule.push(`INTERVAL=${interval}`);
+  }
+
+  const days = mappings.repeatOn ? toList(taskData[mappings.repeatOn]) : [];
+  const weekdays = repeat === 'weekdays' ? ['mon', 'tue', 'wed', 'thu', 'fri'] : days.filter(day => !/^\d+$/.test(day));
+  const monthDays = days.filter(day => /^\d+$/.test(day));
+  if (weekdays.length > 0) {
+    rule.push(`BYDAY=${weekdays.map(day => toWeekdayCode(day, mappings.repeatOn!)).join(',')}`);
+  }
+  if (monthDays.length > 0) {
+    rule.push(`BYMONTHDAY=${monthDays.join(',')}`);
+  }
+
+  const untilValue = mappings.repeatUntil ? taskData[mappings.repeatUntil] : undefined;
+  if (untilValue) {
+    const until = parseRecurrenceDate(untilValue, timeZone, mappings.repeatUntil!);
+    rule.push(`UNTIL=${formatUntil(until, start, timeZone)}`);
+  }
+
+  const recurrence = [`RRULE:${rule.join(';')}`];
+
+  // Skipped occurrences are excluded at the start time of the event
+  const skipDates = mappings.repeatSkip ? toList(taskData[mappings.repeatSkip]) : [];
+  if (skipDates.length > 0) {
+    const dates = skipDates.map(value => parseRecurrenceDate(value, timeZone, mappings.repeatSkip!).replace(/-/g, ''));
+    recurrence.push(start.time
+      ? `EXDATE;TZID=${timeZone}:${dates.map(date => `${date}T${start.time!.replace(/:/g, '')}`).join(',')}`
+      : `EXDATE;VALUE=DATE:${dates.join(',')}`);
+  }
+
+  return recurrence;
+}
+
+/**
+ * Reads recurrence lines of an event back into the structured fields. Rules the fields can't
+ * express are written into the raw recurrence field, or left out if it isn't mapped.
+ */
+export function recurrenceToYaml(plugin: GoogleCalendarTaskSync, recurrence: string[] | undefined | null, timeZone: string): TaskData {
+  const { repeat, repeatOn, repeatUntil, repeatSkip, recurrence: rawMapping } = plugin.settings.fieldMappings;
+  const yamlData: TaskData = {};
+  const lines = recurrence ?? [];
+
+  const structured = repeat ? parseRecurrenceLines(lines, timeZone) : undefined;
+  if (!structured && rawMapping) {
+    yamlData[rawMapping] = lines.length > 0 ? lines.join(',') : undefined;
+    return yamlData;
+  }
+  if (!repeat) {
+    return yamlData;
+  }
+
+  yamlData[repeat] = structured?.repeat;
+  if (repeatOn) {
+    yamlData[repeatOn] = structured?.on;
+  }
+  if (repeatUntil) {
+    yamlData[repeatUntil] = structured?.until;
+  }
+  if (repeatSkip) {
+    yamlData[repeatSkip] = structured?.skip;
+  }
+  return yamlData;
+}
+
+// Returns the structured values of the lines, or undefined if they can't be expressed by them
+function parseRecurrenceLines(lines: string[], timeZone: string): { repeat?: string; on?: string[]; until?: string; skip?: string[] } | undefined {
+  if (lines.length === 0) {
+    return {};
+  }
+
+  const ruleLines = lines.filter(line => line.startsWith('RRULE:'));
+  const exdateLines = lines.filter(line => line.startsWith('EXDATE'));
+  if (ruleLines.length !== 1 || ruleLines.length + exdateLines.length !== lines.length) {
+    return undefined;
+  }
+
+  const parts = Object.fromEntries(ruleLines[0].slice('RRULE:'.length).split(';').map(part => part.split('=')));
+  const frequency = Object.keys(FREQUENCIES).find(unit => FREQUENCIES[unit] === parts.FREQ);
+  if (!frequency || Object.keys(parts).some(key => !STRUCTURED_RULE_PARTS.includes(key))) {
+    return undefined;
+  }
+
+  const byDay: string[] = parts.BYDAY ? parts.BYDAY.split(',') : [];
+  if (byDay.some(code => !WEEKDAY_CODES.includes(code))) {
+    // Ordinal days like `1MO` (first Monday) have no structured form
+    return undefined;
+  }
+
+  const interval = Number(parts.INTERVAL ?? 1);
+  const on = [
+    ...byDay.map(code => WEEKDAY_NAMES[WEEKDAY_CODES.indexOf(code)]),
+    ...(parts.BYMONTHDAY ? parts.BYMONTHDAY.split(',') : []),
+  ];
+  const skip = exdateLines.flatMap(line => parseExdateLine(line, timeZone));
+
+  return {
+    repeat: interval > 1 ? `every ${interval} ${frequency}s` : parts.FREQ.toLowerCase(),
+    on: on.length > 0 ? on : undefined,
+    until: parts.UNTIL ? parseRuleDate(parts.UNTIL, timeZone) : undefined,
+    skip: skip.length > 0 ? skip : undefined,
+  };
+}
+
+// `weekly`, `weekdays`, `biweekly` or `every 2 weeks`, as frequency and interval
+function parseRepeat(repeat: string, key: string): [string, number] {
+  if (repeat === 'weekdays') {
+    return ['WEEKLY', 1];
+  }
+  if (FREQUENCY_NAMES[repeat]) {
+    return [FREQUENCY_NAMES[repeat], repeat === 'biweekly' ? 2 : 1];
+  }
+
+  const match = repeat.match(/^every\s+(?:(\d+)\s+)?(day|week|month|year)s?$/);
+  if (!match) {
+    throw new Error(`Invalid repeat value in "${key}" (${repeat})`);
+  }
+  return [FREQUENCIES[match[2]], Number(match[1] ?? 1)];
+}
+
+function toWeekdayCode(day: string, key: string): string {
+  const index = WEEKDAY_NAMES.indexOf(day.slice(0, 3));
+  if (index === -1) {
+    throw new Error(`Invalid weekday in "${key}" (${day})`);
+  }
+  return WEEKDAY_CODES[index];
+}
+
+// Lists may be YAML lists or comma-separated text
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map(element => String(element).trim().toLowerCase()).filter(Boolean);
+}
+
+function parseRecurrenceDate(value: unknown, timeZone: string, key: string): string {
+  try {
+    return parseDateValue(value, timeZone).date;
+  } catch {
+    throw new Error(`Invalid date in "${key}" (${value})`);
+  }
+}
+
+// All-day rules end on the date, timed rules at the end of the day in UTC as RFC 5545 requires
+function formatUntil(until: string, start: WallClockDate, timeZone: string): string {
+  if (!start.time) {
+    return until.replace(/-/g, '');
+  }
+  const instant = getEventInstant({ dateTime: `${until}T23:59:59`, timeZone }, timeZone);
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+}
+
+// `20261231`, `20261231T225959Z` or `20261231T100000` as `YYYY-MM-DD` of the time zone
+function parseRuleDate(value: string, timeZone: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return value;
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!utc) {
+    return `${year}-${month}-${day}`;
+  }
+  return toWallClockDate(new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}Z`), timeZone).date;
+}
+
+function parseExdateLine(line: string, timeZone: string): string[] {
+  const separatorIndex = line.indexOf(':');
+  return line.slice(separatorIndex + 1).split(',').map(value => parseRuleDate(value.trim(), timeZone));
+}
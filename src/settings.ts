@@ -2,6 +2,47 @@ import {Notice} from 'obsidian';
 import GoogleCalendarTaskSync from './main';
 import {decryptData} from "./encryptionHandler";
 import {debugLog} from "./logger";
+import {SyncStateEntry} from "./syncState";
+
+export type SyncMode = 'event' | 'task';
+
+export type ConflictPolicy = 'note' | 'google' | 'newest' | 'ask';
+
+export type DeletedNoteAction = 'delete' | 'cancel' | 'prefix' | 'none';
+
+export type CompletionMode = 'delete' | 'keep';
+
+export type SendUpdates = 'all' | 'externalOnly' | 'none';
+
+export type StatusActionType = 'delete' | 'cancel' | 'prefix' | 'color' | 'move' | 'none';
+
+// What happens to the event of a note with the status
+export interface StatusAction {
+  status: string;
+  action: StatusActionType;
+  value?: string;             // Title prefix, color ID or target folder of the action
+}
+
+export interface FolderPairSettings {
+  calendarId?: string;        // Google calendar for tasks of this folder pair
+  syncMode?: SyncMode;        // Sync notes as calendar events or as Google Tasks
+  taskListId?: string;        // Google Tasks list for notes synced as tasks
+  defaultDuration?: string;   // Length of events without an end or duration, e.g. `45m`
+  summaryTemplate?: string;   // Event title template of notes in this folder pair
+  descriptionTemplate?: string; // Event description template of notes in this folder pair
+}
+
+// Selects notes by a query over their metadata, with its own target and field names
+export interface SyncRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  query: string;              // e.g. `#task/work folder:Projects priority>=2`
+  calendarId?: string;        // Google calendar of the matched notes
+  syncMode?: SyncMode;        // Sync the matched notes as calendar events or as Google Tasks
+  taskListId?: string;        // Google Tasks list of notes synced as tasks
+  fieldMappings?: Record<string, string>; // Field names of the matched notes that differ from the field mappings
+}
 
 export interface PluginSettings {
   encClientId?: string;
@@ -17,11 +58,44 @@ export interface PluginSettings {
     [key: string]: string | undefined;
   };
   deleteStatus: string;
+  statusActions: StatusAction[]; // Actions of status values, the delete status deletes the event unless listed
+  completionMode: CompletionMode; // Delete the event of a completed task or keep it as history
+  completedPrefix: string;    // Title prefix of kept events of completed tasks
+  completedColorId: string;   // Color of kept events of completed tasks, empty keeps the color
+  doneCalendarId: string;     // Calendar kept events of completed tasks move to, empty keeps the calendar
   logFilePath: string;
   taskFolderPath: string;     // Root task folder
   searchFolderName: string;   // Specific folder within task root to search
   doneFolderName: string;     // Folder for moved completed tasks
+  defaultCalendarId: string;  // Calendar used when no folder pair or note sets one
+  folderPairSettings: Record<string, FolderPairSettings>; // Keyed by the parent path of the folder pair
+  syncRules: SyncRule[];      // Rules selecting the synced notes, empty syncs tagged notes in the search folders
+  defaultSyncMode: SyncMode;  // Sync mode used when no folder pair or note sets one
+  defaultTaskListId: string;  // Google Tasks list used when no folder pair sets one
+  defaultTimeZone: string;    // IANA time zone of task dates without a `timezone` field, empty uses the system's
+  defaultDuration: string;    // Length of events without an end or duration when the folder pair sets none, e.g. `30m`
+  syncInlineTasks: boolean;   // Also sync checklist lines with a date (Tasks plugin or Dataview format) as tasks
+  inlineTaskFolder: string;   // Folder searched for inline tasks, empty searches the whole vault
+  normalizeDates: boolean;    // Write dates typed like `tomorrow 15:00` back to the note as ISO values
+  personEmailField: string;   // Frontmatter field of person notes that holds the email of linked attendees
+  sendUpdates: SendUpdates;   // Whom Google sends invitations and updates to when events with attendees change
   lastSyncDate?: string;
+  syncTokens?: Record<string, string>; // Google sync token per calendar for incremental change detection
+  syncState: Record<string, SyncStateEntry>; // Link of each synced note (by path) to its event or Google Task
+  twoWaySync: boolean;        // Pull changes made in Google Calendar back into the notes
+  conflictPolicy: ConflictPolicy; // Resolution when both the note and its event changed since the last sync
+  autoSyncInterval: number;   // Minutes between background syncs, 0 disables the interval
+  syncOnStartup: boolean;     // Run a sync when Obsidian starts
+  syncOnNoteChange: boolean;  // Run a sync after task notes are created or modified
+  noteChangeSyncDelay: number; // Seconds without further note changes before that sync runs
+  summaryTemplate: string;    // Event title template like `{{priority}} {{name}} ({{project}})`, empty uses the name field
+  descriptionTemplate: string; // Markdown template of event descriptions, empty uses the note body
+  descriptionMaxLength: number; // Characters of the note rendered into event descriptions, 0 for no limit
+  addNoteLinkToDescription: boolean; // Add a link that opens the note to event descriptions
+  deletedNoteAction: DeletedNoteAction; // What happens to the event of a deleted task note
+  deletedNotePrefix: string;  // Title prefix of events whose note was deleted, for the 'prefix' action
+  confirmBulkDeletions: boolean; // Ask before the action is applied to many deleted notes at once
+  bulkDeletionThreshold: number; // Number of deleted notes from which the confirmation is shown
   debugMode: boolean;         // Toggle for debug mode
 }
 
@@ -38,12 +112,53 @@ export const DEFAULT_SETTINGS: PluginSettings = {
 		reminders: '',
 		recurrence: '',
 		visibility: '',
+		calendar: 'calendar',
+		syncMode: 'syncAs',
+		timezone: 'timezone',
+		duration: 'duration',
+		completed: 'completed',
+		repeat: 'repeat',
+		repeatOn: 'on',
+		repeatUntil: 'until',
+		repeatSkip: 'skip',
 	},
 	deleteStatus: '🟢 DONE',
+	statusActions: [],
+	completionMode: 'delete',       // Default removes the event of a completed task
+	completedPrefix: '✅ ',
+	completedColorId: '',
+	doneCalendarId: '',
 	logFilePath: '',
 	taskFolderPath: 'Tasks',        // Default root folder for tasks
 	searchFolderName: 'OPEN',       // Default subfolder to search within taskFolderPath
 	doneFolderName: 'DONE',         // Default subfolder for completed tasks within taskFolderPath
+	defaultCalendarId: 'primary',   // Default Google calendar of the account
+	folderPairSettings: {},
+	syncState: {},
+	syncRules: [],
+	defaultSyncMode: 'event',       // Default is syncing notes as calendar events
+	defaultTaskListId: '@default',  // Default Google Tasks list of the account
+	defaultTimeZone: '',            // Default is the time zone of the system
+	defaultDuration: '30m',
+	syncInlineTasks: false,
+	inlineTaskFolder: '',           // Default searches the whole vault
+	normalizeDates: false,          // Default keeps dates as they were typed
+	personEmailField: 'email',
+	sendUpdates: 'none',            // Default changes events without emailing the attendees
+	twoWaySync: false,              // Default is one-way sync from Obsidian to Google
+	conflictPolicy: 'note',         // Default keeps the note like one-way sync does
+	autoSyncInterval: 0,            // Default is no background sync on an interval
+	syncOnStartup: false,
+	syncOnNoteChange: false,
+	noteChangeSyncDelay: 30,
+	summaryTemplate: '',
+	descriptionTemplate: '',
+	descriptionMaxLength: 2000,
+	addNoteLinkToDescription: true,
+	deletedNoteAction: 'delete',    // Default removes the event together with its note
+	deletedNotePrefix: '[Deleted] ',
+	confirmBulkDeletions: true,
+	bulkDeletionThreshold: 5,
 	debugMode: false,               // Default debug mode is off
 };
 
@@ -54,6 +169,9 @@ export async function loadSettings(plugin: GoogleCalendarTaskSync, defaults: Plu
     // Mische geladene Daten mit den Standardwerten
     const settings = Object.assign({}, defaults, data) as PluginSettings;
 
+    // Keep mappings added in newer versions available for existing installations
+    settings.fieldMappings = Object.assign({}, defaults.fieldMappings, data?.fieldMappings);
+
     return settings;
 }
 
@@ -0,0 +1,122 @@
+import { calendar_v3, tasks_v1 } from "googleapis";
+import GoogleCalendarTaskSync from "./main";
+import { StatusAction, StatusActionType } from "./settings";
+import { parseDateValue } from "./dateParser";
+import { addDays, addMinutes, toEventDateTime, WallClockDate } from "./timeZones";
+import { TaskData } from "./dataFetchers";
+
+export const statusActionLabels: Record<StatusActionType, string> = {
+  delete: "Delete event and move note to done folder",
+  cancel: "Keep event, mark it cancelled",
+  prefix: "Prefix the event title",
+  color: "Change the event color",
+  move: "Move note to folder",
+  none: "Do nothing",
+};
+
+/**
+ * Returns the action configured for the task's status. Without a table entry the delete status
+ * keeps its original meaning: the event is deleted and the note moves to its done folder.
+ */
+export function getStatusAction(plugin: GoogleCalendarTaskSync, taskData: TaskData): StatusAction | undefined {
+  const { fieldMappings, statusActions, deleteStatus } = plugin.settings;
+  const status = String(taskData[fieldMappings.status] ?? '').trim().toLowerCase();
+  if (!status) {
+    return undefined;
+  }
+
+  const statusAction = (statusActions ?? []).find(entry => entry.status.trim().toLowerCase() === status);
+  if (statusAction) {
+    return statusAction;
+  }
+  return status === deleteStatus.trim().toLowerCase() ? { status: deleteStatus, action: 'delete' } : undefined;
+}
+
+// The event keeps syncing with the status shown in it: a title prefix, a color or the cancelled state
+export function applyStatusActionToEvent(plugin: GoogleCalendarTaskSync, event: calendar_v3.Schema$Event, taskData: TaskData): void {
+  const statusAction = getStatusAction(plugin, taskData);
+
+  switch (statusAction?.action) {
+    case 'prefix': {
+      const prefix = statusAction.value || '✅ ';
+      if (!event.summary?.startsWith(prefix)) {
+        event.summary = `${prefix}${event.summary ?? ''}`;
+      }
+      break;
+    }
+    case 'color':
+      if (statusAction.value) {
+        event.colorId = statusAction.value;
+      }
+      break;
+    case 'cancel':
+      event.status = 'cancelled';
+      break;
+  }
+}
+
+// Whether the event of the completed task is kept as history instead of being deleted
+export function isKeptCompletion(plugin: GoogleCalendarTaskSync, taskData: TaskData): boolean {
+  return plugin.settings.completionMode === 'keep' && getStatusAction(plugin, taskData)?.action === 'delete';
+}
+
+/**
+ * Marks the kept event of a completed task as done with the completed prefix and color. With a
+ * `completed` timestamp the event moves to the completion: timed events keep their length and
+ * end at it, a completion date without time makes an all-day event of that day.
+ */
+export function applyCompletionToEvent(plugin: GoogleCalendarTaskSync, event: calendar_v3.Schema$Event, taskData: TaskData, timeZone: string): void {
+  if (!isKeptCompletion(plugin, taskData)) {
+    return;
+  }
+
+  const { completedPrefix, completedColorId, fieldMappings } = plugin.settings;
+  if (completedPrefix && !event.summary?.startsWith(completedPrefix)) {
+    event.summary = `${completedPrefix}${event.summary ?? ''}`;
+  }
+  if (completedColorId) {
+    event.colorId = completedColorId;
+  }
+
+  const completedValue = fieldMappings.completed ? taskData[fieldMappings.completed] : undefined;
+  if (!completedValue) {
+    return;
+  }
+
+  let completed: WallClockDate;
+  try {
+    completed = parseDateValue(completedValue, timeZone);
+  } catch {
+    throw new Error(`Unparseable date for completed in "${fieldMappings.completed}" (${completedValue})`);
+  }
+
+  if (!completed.time || !event.start?.dateTime || !event.end?.dateTime) {
+    event.start = { date: completed.date };
+    event.end = { date: addDays(completed.date, 1) };
+    return;
+  }
+
+  const durationMinutes = getMinutesBetween(event.start.dateTime, event.end.dateTime);
+  event.start = toEventDateTime(addMinutes(completed, -durationMinutes), timeZone);
+  event.end = toEventDateTime(completed, timeZone);
+}
+
+// Google Tasks have no color or cancelled state, cancelled tasks are completed instead
+export function applyStatusActionToGoogleTask(plugin: GoogleCalendarTaskSync, googleTask: tasks_v1.Schema$Task, taskData: TaskData): void {
+  const statusAction = getStatusAction(plugin, taskData);
+
+  if (statusAction?.action === 'delete' || statusAction?.action === 'cancel') {
+    googleTask.status = 'completed';
+  } else if (statusAction?.action === 'prefix') {
+    const prefix = statusAction.value || '✅ ';
+    if (!googleTask.title?.startsWith(prefix)) {
+      googleTask.title = `${prefix}${googleTask.title ?? ''}`;
+    }
+  }
+}
+
+// Minutes between two wall-clock `dateTime` values of the same time zone
+function getMinutesBetween(start: string, end: string): number {
+  const toMinutes = (dateTime: string) => Date.parse(`${dateTime.slice(0, 19)}Z`) / 60000;
+  return Math.max(toMinutes(end) - toMinutes(start), 0);
+}
@@ -0,0 +1,214 @@
+import { CachedMetadata, FrontMatterCache, getAllTags, TFile } from "obsidian";
+import GoogleCalendarTaskSync from "./main";
+import { SyncRule } from "./settings";
+import { getErrorMessage } from "./logger";
+import { TaskData } from "./dataFetchers";
+
+// A term of a rule query, tested against the metadata of a note
+interface QueryTerm {
+  negate: boolean;
+  test: (note: NoteMetadata) => boolean;
+}
+
+interface NoteMetadata {
+  file: TFile;
+  cache: CachedMetadata | null;
+  frontmatter: FrontMatterCache;
+}
+
+// Terms are separated by spaces, quoted values and wiki links may contain spaces
+const TERM_PATTERN = /(?:[^\s"[]|"[^"]*"|\[\[[^\]]*\]\]|\[)+/g;
+const PREDICATE_PATTERN = /^([\w.-]+)(>=|<=|!=|=|>|<|:)(.*)$/;
+const LEADING_OPERATOR_PATTERN = /^(?:>=|<=|!=|=|>|<)/;
+const TRAILING_OPERATOR_PATTERN = /(?:>=|<=|!=|=|>|<)$/;
+
+/**
+ * Compiles a rule query into a test of note metadata. All terms have to match:
+ * `#task/work` or `tag:task` (nested tags included), `folder:Projects`, `link:[[Client A]]`,
+ * `has:due` and frontmatter predicates like `priority >= 2` or `status!=done`. A leading `-`
+ * negates a term.
+ */
+export function compileQuery(plugin: GoogleCalendarTaskSync, query: string): (file: TFile) => boolean {
+  const terms = tokenizeQuery(query).map(term => parseTerm(plugin, term));
+
+  return (file: TFile) => {
+    const cache = plugin.app.metadataCache.getFileCache(file);
+    const note: NoteMetadata = { file, cache, frontmatter: cache?.frontmatter ?? {} };
+    return terms.length > 0 && terms.every(term => term.test(note) !== term.negate);
+  };
+}
+
+export function getActiveSyncRules(plugin: GoogleCalendarTaskSync): SyncRule[] {
+  return (plugin.settings.syncRules ?? []).filter(rule => rule.enabled && rule.query.trim());
+}
+
+// Returns a validation error of the query, or undefined if it compiles
+export function validateQuery(plugin: GoogleCalendarTaskSync, query: string): string | undefined {
+  try {
+    tokenizeQuery(query).forEach(term => parseTerm(plugin, term));
+    return undefined;
+  } catch (error) {
+    return getErrorMessage(error);
+  }
+}
+
+/**
+ * Returns the frontmatter of a note matched by the rule under the field names of the global
+ * mappings, so the rule's own field names are read like the global ones.
+ */
+export function applyRuleMappings(plugin: GoogleCalendarTaskSync, rule: SyncRule, frontmatter: FrontMatterCache): TaskData {
+  const overrides = getMappingOverrides(plugin, rule);
+  if (overrides.length === 0) {
+    return frontmatter;
+  }
+
+  const data = { ...frontmatter };
+  for (const [globalKey, ruleKey] of overrides) {
+    if (frontmatter[ruleKey] === undefined) {
+      delete data[globalKey];
+    } else {
+      data[globalKey] = frontmatter[ruleKey];
+    }
+  }
+  return data;
+}
+
+// Reverse of `applyRuleMappings`: renames changed global fields to the field names of the rule
+export function toRuleFields(plugin: GoogleCalendarTaskSync, rule: SyncRule, changes: TaskData): TaskData {
+  const ruleKeys = new Map(getMappingOverrides(plugin, rule));
+  return Object.fromEntries(Object.entries(changes).map(([key, value]) => [ruleKeys.get(key) ?? key, value]));
+}
+
+// Parses `start=scheduled, name=title` into the field mapping overrides of a rule
+export function parseMappingOverrides(text: string): Record<string, string> {
+  return Object.fromEntries(text
+    .split(',')
+    .map(pair => pair.split('=').map(part => part.trim()))
+    .filter(([field, key]) => field && key));
+}
+
+export function formatMappingOverrides(overrides: Record<string, string> = {}): string {
+  return Object.entries(overrides).map(([field, key]) => `${field}=${key}`).join(', ');
+}
+
+// Pairs of global field name and rule field name of the mappings the rule overrides
+function getMappingOverrides(plugin: GoogleCalendarTaskSync, rule: SyncRule): [string, string][] {
+  return Object.entries(rule.fieldMappings ?? {})
+    .map(([field, ruleKey]) => [plugin.settings.fieldMappings[field], ruleKey] as [string | undefined, string])
+    .filter((pair): pair is [string, string] => !!pair[0] && !!pair[1] && pair[0] !== pair[1]);
+}
+
+// Splits the query into terms, spaces around comparison operators like `priority >= 2` are allowed
+function tokenizeQuery(query: string): string[] {
+  const terms: string[] = [];
+  for (const token of query.match(TERM_PATTERN) ?? []) {
+    const previous = terms[terms.length - 1];
+    if (previous !== undefined && (TRAILING_OPERATOR_PATTERN.test(previous) || LEADING_OPERATOR_PATTERN.test(token))) {
+      terms[terms.length - 1] = `${previous}${token}`;
+    } else {
+      terms.push(token);
+    }
+  }
+  return terms;
+}
+
+function parseTerm(plugin: GoogleCalendarTaskSync, term: string): QueryTerm {
+  const negate = term.startsWith('-') && term.length > 1;
+  const text = negate ? term.slice(1) : term;
+
+  if (text.startsWith('#')) {
+    return { negate, test: note => hasTag(note, text) };
+  }
+
+  const predicate = text.match(PREDICATE_PATTERN);
+  if (!predicate) {
+    throw new Error(`Invalid query term "${term}"`);
+  }
+
+  const [, key, operator, rawValue] = predicate;
+  const value = unquote(rawValue);
+
+  if (operator === ':') {
+    switch (key) {
+      case 'tag':
+        return { negate, test: note => hasTag(note, value) };
+      case 'folder':
+      case 'path': {
+        const folder = value.replace(/^\/+|\/+$/g, '');
+        return { negate, test: note => !folder || note.file.path.startsWith(`${folder}/`) || note.file.path === folder };
+      }
+      case 'link':
+        return { negate, test: note => hasLink(plugin, note, value.replace(/^\[\[|\]\]$/g, '')) };
+      case 'has':
+        return { negate, test: note => !isEmpty(note.frontmatter[value]) };
+      default:
+        return { negate, test: note => compareValue(note.frontmatter[key], '=', value) };
+    }
+  }
+
+  return { negate, test: note => compareValue(note.frontmatter[key], operator, value) };
+}
+
+// Matches the tag and its nested tags, `#task` matches `#task/work`
+function hasTag(note: NoteMetadata, tag: string): boolean {
+  const wanted = tag.replace(/^#/, '').toLowerCase();
+  const tags = note.cache ? getAllTags(note.cache) ?? [] : [];
+  return tags.some(noteTag => {
+    const name = noteTag.replace(/^#/, '').toLowerCase();
+    return name === wanted || name.startsWith(`${wanted}/`);
+  });
+}
+
+// Links in the body and in frontmatter properties, compared by the note they resolve to
+function hasLink(plugin: GoogleCalendarTaskSync, note: NoteMetadata, target: string): boolean {
+  const linkPath = target.split(/[#|]/)[0];
+  const targetFile = plugin.app.metadataCache.getFirstLinkpathDest(linkPath, note.file.path);
+  const links = [...(note.cache?.links ?? []), ...(note.cache?.frontmatterLinks ?? [])];
+
+  return links.some(({ link }) => {
+    const path = link.split(/[#|]/)[0];
+    if (targetFile) {
+      return plugin.app.metadataCache.getFirstLinkpathDest(path, note.file.path)?.path === targetFile.path;
+    }
+    return path.toLowerCase() === linkPath.toLowerCase();
+  });
+}
+
+// Numbers compare numerically, other values as case-insensitive text; lists match if any element does
+function compareValue(actual: unknown, operator: string, expected: string): boolean {
+  if (Array.isArray(actual)) {
+    return operator === '!='
+      ? actual.every(element => compareValue(element, operator, expected))
+      : actual.some(element => compareValue(element, operator, expected));
+  }
+  if (isEmpty(actual)) {
+    return operator === '!=' ? expected !== '' : operator === '=' && expected === '';
+  }
+
+  const isNumeric = !isNaN(Number(actual)) && !isNaN(Number(expected)) && expected.trim() !== '';
+  const left = isNumeric ? Number(actual) : String(actual).toLowerCase();
+  const right = isNumeric ? Number(expected) : expected.toLowerCase();
+
+  switch (operator) {
+    case '=':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '>=':
+      return left >= right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    default:
+      return left < right;
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, '$1');
+}
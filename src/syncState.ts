@@ -0,0 +1,115 @@
+import { TFile } from "obsidian";
+import { SHA256 } from "crypto-js";
+import { calendar_v3, tasks_v1 } from "googleapis";
+import GoogleCalendarTaskSync from "./main";
+import { saveSettings } from "./settings";
+import { debugLog } from "./logger";
+import { ObsidianTask, TaskData } from "./dataFetchers";
+
+export interface SyncStateEntry {
+  eventId?: string;           // Linked Google Calendar event
+  calendarId?: string;        // Calendar the event lives in
+  taskId?: string;            // Linked Google Task
+  taskListId?: string;        // Task list the Google Task lives in
+  contentHash?: string;       // Hash of the event or Google Task payload last pushed to Google
+  etag?: string;              // etag of the event after the last sync
+  lastSynced?: string;        // ISO date of the last sync of the note
+  imported?: boolean;         // The note was imported from an event the plugin didn't create
+}
+
+/**
+ * Returns the sync state of a note. Notes linked before the state index existed are
+ * backfilled from their `googleEventId`/`googleTaskId` frontmatter.
+ */
+export function getTaskSyncState(plugin: GoogleCalendarTaskSync, task: ObsidianTask): SyncStateEntry {
+  const entry = plugin.settings.syncState[getTaskKey(task)];
+  if (entry) {
+    return entry;
+  }
+
+  return task.inline ? {} : backfillSyncState(plugin, task.file.path, task.data) ?? {};
+}
+
+// Key of the task in the sync state: the note path, `path#^blockId` for inline tasks
+export function getTaskKey(task: ObsidianTask): string {
+  return task.inline ? `${task.file.path}#^${task.inline.blockId}` : task.file.path;
+}
+
+// The note path of a sync state key
+export function getNotePathOfKey(key: string): string {
+  return key.split('#^')[0];
+}
+
+export function updateSyncState(plugin: GoogleCalendarTaskSync, notePath: string, changes: Partial<SyncStateEntry>): SyncStateEntry {
+  const entry: SyncStateEntry = { ...plugin.settings.syncState[notePath], ...changes };
+
+  // Drop keys explicitly cleared by the changes
+  (Object.keys(entry) as (keyof SyncStateEntry)[]).forEach(key => entry[key] === undefined && delete entry[key]);
+
+  plugin.settings.syncState[notePath] = entry;
+  return entry;
+}
+
+export function removeSyncState(plugin: GoogleCalendarTaskSync, notePath: string): void {
+  delete plugin.settings.syncState[notePath];
+}
+
+export function findNotePathByEventId(plugin: GoogleCalendarTaskSync, eventId: string): string | undefined {
+  return Object.keys(plugin.settings.syncState).find(notePath => plugin.settings.syncState[notePath].eventId === eventId);
+}
+
+// Hash of the event or Google Task payload without its id, to tell whether a note's mapped content changed
+export function hashSyncPayload(payload: calendar_v3.Schema$Event | tasks_v1.Schema$Task): string {
+  const content = { ...payload };
+  delete content.id;
+  return SHA256(JSON.stringify(content)).toString();
+}
+
+/**
+ * Keeps the state index in step with the vault and imports links from notes synced before it existed.
+ */
+export function registerSyncStateEvents(plugin: GoogleCalendarTaskSync): void {
+  plugin.registerEvent(plugin.app.vault.on("rename", async (file, oldPath) => {
+    // The note's own entry and the entries of its inline tasks
+    const keys = Object.keys(plugin.settings.syncState).filter(key => getNotePathOfKey(key) === oldPath);
+    if (!(file instanceof TFile) || keys.length === 0) {
+      return;
+    }
+
+    for (const key of keys) {
+      const entry = plugin.settings.syncState[key];
+      removeSyncState(plugin, key);
+      plugin.settings.syncState[`${file.path}${key.slice(oldPath.length)}`] = entry;
+    }
+    await saveSettings(plugin, plugin.settings);
+    debugLog(plugin, `Sync state moved from "${oldPath}" to "${file.path}".`);
+  }));
+
+  plugin.app.workspace.onLayoutReady(async () => {
+    let backfilledCount = 0;
+    for (const file of plugin.app.vault.getMarkdownFiles()) {
+      const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (frontmatter && !plugin.settings.syncState[file.path] && backfillSyncState(plugin, file.path, frontmatter)) {
+        backfilledCount++;
+      }
+    }
+
+    if (backfilledCount > 0) {
+      await saveSettings(plugin, plugin.settings);
+      debugLog(plugin, `Sync state created for ${backfilledCount} notes linked in their frontmatter.`);
+    }
+  });
+}
+
+function backfillSyncState(plugin: GoogleCalendarTaskSync, notePath: string, frontmatter: TaskData): SyncStateEntry | undefined {
+  if (!frontmatter?.googleEventId && !frontmatter?.googleTaskId) {
+    return undefined;
+  }
+
+  return updateSyncState(plugin, notePath, {
+    eventId: frontmatter.googleEventId || undefined,
+    calendarId: frontmatter.googleEventId ? frontmatter.googleCalendarId || "primary" : undefined,
+    taskId: frontmatter.googleTaskId || undefined,
+    taskListId: frontmatter.googleTaskId ? frontmatter.googleTaskListId || "@default" : undefined,
+  });
+}
@@ -1,41 +1,148 @@
-import { calendar_v3, google } from "googleapis";
+import { calendar_v3, google, tasks_v1 } from "googleapis";
 import GoogleCalendarTaskSync from "./main";
-import { mapYamlToEvent, saveTaskDataToYaml, logInfo } from "./fileHelpers";
+import { mapYamlToEvent, updateFrontmatter, updateTaskFrontmatter, logInfo, mapEventToYaml, buildNoteContent, getAvailableNotePath, getConfiguredCalendarIds, mapYamlToGoogleTask, isOwnedEvent, getOwnedEventNotePath, getOwnershipProperties } from "./fileHelpers";
+import { buildEventDeleteRequest, buildEventPatchRequest, executeBatch, getBatchErrorMessage } from "./googleBatch";
 import { Notice, TFile } from "obsidian";
-import { getGoogleCalendarEvents } from "./dataFetchers";
-import {debugLog} from "./logger";
+import { getGoogleCalendarEvents, ObsidianTask } from "./dataFetchers";
+import {debugLog, getErrorMessage} from "./logger";
+import { htmlToMarkdown } from "./descriptionRenderer";
 import {decryptData} from "./encryptionHandler";
-import {refreshAccessToken} from "./oauth";
+import {getOAuth2Client, refreshAccessToken} from "./oauth";
+import { saveSettings } from "./settings";
+import { getDefaultTimeZone, isValidTimeZone } from "./timeZones";
+import { findNotePathByEventId, getTaskKey, getTaskSyncState, hashSyncPayload, updateSyncState } from "./syncState";
 
 
-export async function deleteEvent(plugin: GoogleCalendarTaskSync, eventId) {
-  const calendar = google.calendar({ version: 'v3', auth: plugin.oAuth2Client });
-  try {
-	await calendar.events.delete({
-	  calendarId: 'primary',
-	  eventId: eventId,
-	});
-	debugLog(plugin, `Successfully deleted event with ID: ${eventId}`);
-  } catch (error) {
-	throw new Error(`Failed to delete event with ID: ${eventId}: ${error.message}`);
-  }
+export async function createGoogleTaskForTask(plugin: GoogleCalendarTaskSync, task: ObsidianTask, taskListId: string = '@default') {
+	const tasks = google.tasks({ version: 'v1', auth: getOAuth2Client(plugin) });
+	try {
+		const googleTask = await mapYamlToGoogleTask(plugin, task.data, task.file, task.inline);
+
+		const createdTask = await tasks.tasks.insert({
+			tasklist: taskListId,
+			requestBody: googleTask,
+		});
+
+		updateSyncState(plugin, getTaskKey(task), {
+			taskId: createdTask.data.id!,
+			taskListId: taskListId,
+			contentHash: hashSyncPayload(googleTask),
+			lastSynced: new Date().toISOString(),
+		});
+		await updateTaskFrontmatter(plugin, task, { googleTaskId: createdTask.data.id, googleTaskListId: taskListId });
+	} catch (error) {
+		throw new Error(`Error creating Google Task for task ${task.file.basename}: ${getErrorMessage(error)}`);
+	}
+}
+
+export async function syncTaskToGoogleTask(plugin: GoogleCalendarTaskSync, task: ObsidianTask, taskListId: string = '@default') {
+	const tasks = google.tasks({ version: 'v1', auth: getOAuth2Client(plugin) });
+	try {
+		const googleTask = await mapYamlToGoogleTask(plugin, task.data, task.file, task.inline);
+
+		await tasks.tasks.patch({
+			tasklist: taskListId,
+			task: getTaskSyncState(plugin, task).taskId,
+			requestBody: googleTask,
+		});
+		updateSyncState(plugin, getTaskKey(task), { contentHash: hashSyncPayload(googleTask), lastSynced: new Date().toISOString() });
+	} catch (error) {
+		throw new Error(`Error updating Google Task for task ${task.file.basename}: ${getErrorMessage(error)}`);
+	}
+}
+
+// Marks the Google Task as completed, Google Tasks are kept instead of deleted when a note is done
+export async function completeGoogleTask(plugin: GoogleCalendarTaskSync, googleTaskId: string, taskListId: string = '@default') {
+	const tasks = google.tasks({ version: 'v1', auth: getOAuth2Client(plugin) });
+	try {
+		const completedTask: tasks_v1.Schema$Task = { status: 'completed' };
+		await tasks.tasks.patch({
+			tasklist: taskListId,
+			task: googleTaskId,
+			requestBody: completedTask,
+		});
+		debugLog(plugin, `Successfully completed Google Task with ID: ${googleTaskId}`);
+	} catch (error) {
+		throw new Error(`Failed to complete Google Task with ID: ${googleTaskId}: ${getErrorMessage(error)}`);
+	}
 }
 
-export async function createEventForTask(plugin: GoogleCalendarTaskSync, task: any) {
-	const calendar = google.calendar({ version: 'v3', auth: plugin.oAuth2Client });
+export async function importGoogleEventsAsTasks(plugin: GoogleCalendarTaskSync, targetFolderPath: string, tag: string = 'task', calendarId: string = 'primary'): Promise<void> {
+	debugLog(plugin, `Importing upcoming Google Calendar events from "${calendarId}" into "${targetFolderPath}"...`);
+
+	await refreshAccessToken(plugin);
+
+	// Only events that haven't ended yet, the calendar's history isn't imported
+	const events = await getGoogleCalendarEvents(plugin, calendarId, false, new Date());
+
+	// Collect all event IDs that are already linked to a note anywhere in the vault
+	const linkedEventIds = new Set<string>(Object.values(plugin.settings.syncState)
+		.map(entry => entry.eventId)
+		.filter((eventId): eventId is string => !!eventId));
+
+	// Events created by the plugin already come from a note
+	const eventsToImport = events.filter(event =>
+		event.id && event.status !== 'cancelled' && !isOwnedEvent(event) && !linkedEventIds.has(event.id));
+	const totalEvents = eventsToImport.length;
+
+	if (totalEvents === 0) {
+		new Notice("No new upcoming Google Calendar events found to import.");
+		return;
+	}
+
+	const progressNotice = new Notice(`Importing 0 of ${totalEvents} upcoming events...`, 0);
+	let importedCount = 0;
+
+	for (const event of eventsToImport) {
+		try {
+			await createTaskForEvent(plugin, event, targetFolderPath, tag, calendarId);
+			importedCount++;
+			progressNotice.setMessage(`Importing ${importedCount} of ${totalEvents} upcoming events...`);
+		} catch (error) {
+			console.error(`Failed to import event ${event.id}:`, error);
+		}
+	}
+
+	await saveSettings(plugin, plugin.settings);
+
+	progressNotice.setMessage(`Successfully imported ${importedCount} of ${totalEvents} upcoming events.`);
+	setTimeout(() => progressNotice.hide(), 3000);
+
+	debugLog(plugin, `Imported ${importedCount} Google Calendar events as tasks.`);
+}
+
+export async function createTaskForEvent(plugin: GoogleCalendarTaskSync, event: calendar_v3.Schema$Event, folderPath: string, tag: string = 'task', calendarId: string = 'primary'): Promise<TFile> {
 	try {
-		const event = await mapYamlToEvent(plugin, task.data, task.file);
+		// Keep the event's own time zone in the note when it differs from the default one
+		const defaultTimeZone = getDefaultTimeZone(plugin);
+		const eventTimeZone = event.start?.timeZone && isValidTimeZone(event.start.timeZone) ? event.start.timeZone : defaultTimeZone;
+		const timeZoneMapping = plugin.settings.fieldMappings.timezone;
 
-		const createdEvent = await calendar.events.insert({
-			calendarId: 'primary',
-			resource: event,
+		const taskData = {
+			tags: [tag],
+			...mapEventToYaml(plugin, event, undefined, eventTimeZone),
+			...(timeZoneMapping && eventTimeZone !== defaultTimeZone ? { [timeZoneMapping]: eventTimeZone } : {}),
+			googleEventId: event.id,
+			googleCalendarId: calendarId,
+		};
+
+		const notePath = getAvailableNotePath(plugin.app.vault, folderPath, event.summary || 'Untitled event');
+		const file = await plugin.app.vault.create(notePath, buildNoteContent(taskData, htmlToMarkdown(event.description || '')));
+
+		// Hash the note as written, so the next sync doesn't push the unchanged note over the event
+		updateSyncState(plugin, file.path, {
+			eventId: event.id!,
+			calendarId: calendarId,
+			etag: event.etag!,
+			contentHash: hashSyncPayload(await mapYamlToEvent(plugin, taskData, file)),
+			lastSynced: new Date().toISOString(),
+			imported: true,
 		});
 
-		// Speichere die Event-ID zurück in die YAML-Frontmatter des Tasks
-		task.data.googleEventId = createdEvent.data.id;
-		await saveTaskDataToYaml(plugin, task.file, task.data);
+		debugLog(plugin, `Created task "${file.path}" for event ${event.id}`);
+		return file;
 	} catch (error) {
-		throw new Error(`Error creating event for task ${task.file.basename}: ${error.message}`);
+		throw new Error(`Error creating task for event ${event.id}: ${getErrorMessage(error)}`);
 	}
 }
 
@@ -45,8 +152,12 @@ export async function deleteAllGoogleEventsFromTasks(plugin: GoogleCalendarTaskS
   // Refresh the access token to ensure it's valid
   await refreshAccessToken(plugin);
 
-  // Fetch all Google Calendar events
-  const eventsToDelete = await getGoogleCalendarEvents(plugin);
+  // Fetch the events the plugin created in every calendar it syncs to
+  const eventsToDelete: { event: calendar_v3.Schema$Event; calendarId: string }[] = [];
+  for (const calendarId of getConfiguredCalendarIds(plugin)) {
+    const events = await getGoogleCalendarEvents(plugin, calendarId, true);
+    eventsToDelete.push(...events.map(event => ({ event, calendarId })));
+  }
   const totalEvents = eventsToDelete.length;
 
   if (totalEvents === 0) {
@@ -60,13 +171,15 @@ export async function deleteAllGoogleEventsFromTasks(plugin: GoogleCalendarTaskS
   for (let i = 0; i < totalEvents; i++) {
     try {
       // Delete the event and update corresponding files
-      await deleteEventAndRemoveField(plugin, eventsToDelete[i]);
+      await deleteEventAndRemoveField(plugin, eventsToDelete[i].event, eventsToDelete[i].calendarId);
       progressNotice.setMessage(`Deleting ${i + 1} of ${totalEvents} events...`);
     } catch (error) {
-      console.error(`Failed to delete event ${eventsToDelete[i].id}:`, error);
+      console.error(`Failed to delete event ${eventsToDelete[i].event.id}:`, error);
     }
   }
 
+  await saveSettings(plugin, plugin.settings);
+
   progressNotice.setMessage(`Successfully deleted ${totalEvents} events.`);
   setTimeout(() => progressNotice.hide(), 3000);
 
@@ -74,25 +187,109 @@ export async function deleteAllGoogleEventsFromTasks(plugin: GoogleCalendarTaskS
 }
 
 
-export async function deleteEventAndRemoveField(plugin: GoogleCalendarTaskSync, event: calendar_v3.Schema$Event): Promise<void> {
+// Marks the events already linked to notes as owned by the plugin, for events created before ownership marking
+export async function adoptLinkedEvents(plugin: GoogleCalendarTaskSync): Promise<void> {
+  await refreshAccessToken(plugin);
+
+  // Imported events belong to someone else, they are never marked as created by the plugin
+  const linkedNotes = Object.entries(plugin.settings.syncState)
+    .filter(([, entry]) => entry.eventId && !entry.imported)
+    .map(([notePath, entry]) => ({ notePath, entry }));
+
+  if (linkedNotes.length === 0) {
+    new Notice("No notes linked to Google Calendar events found.");
+    return;
+  }
+
+  const responses = await executeBatch(plugin, linkedNotes.map(({ notePath, entry }) =>
+    buildEventPatchRequest(entry.calendarId || 'primary', entry.eventId!, {
+      extendedProperties: { private: getOwnershipProperties(notePath) },
+    })));
+
+  let adoptedCount = 0;
+  responses.forEach((response, index) => {
+    if (response.status < 400) {
+      adoptedCount++;
+    } else {
+      console.error(`Failed to adopt event of "${linkedNotes[index].notePath}": ${getBatchErrorMessage(response)}`);
+    }
+  });
+
+  new Notice(`Marked ${adoptedCount} of ${linkedNotes.length} linked events as created from tasks.`);
+  debugLog(plugin, `Adopted ${adoptedCount} linked Google Calendar events.`);
+}
+
+// Deletes owned events that point to the same note, keeping the one the note links to (or the newest)
+export async function removeDuplicateEvents(plugin: GoogleCalendarTaskSync): Promise<void> {
+  await refreshAccessToken(plugin);
+
+  const duplicates: { calendarId: string; event: calendar_v3.Schema$Event }[] = [];
+
+  for (const calendarId of getConfiguredCalendarIds(plugin)) {
+    const eventsByNotePath = new Map<string, calendar_v3.Schema$Event[]>();
+    for (const event of await getGoogleCalendarEvents(plugin, calendarId, true)) {
+      const notePath = getOwnedEventNotePath(event);
+      if (notePath) {
+        eventsByNotePath.set(notePath, [...(eventsByNotePath.get(notePath) || []), event]);
+      }
+    }
+
+    eventsByNotePath.forEach((events, notePath) => {
+      if (events.length < 2) {
+        return;
+      }
+
+      const linkedEventId = plugin.settings.syncState[notePath]?.eventId;
+      const keptEvent = events.find(event => event.id === linkedEventId)
+        ?? [...events].sort((a, b) => new Date(b.updated || 0).getTime() - new Date(a.updated || 0).getTime())[0];
+
+      events.filter(event => event !== keptEvent).forEach(event => duplicates.push({ calendarId, event }));
+    });
+  }
+
+  if (duplicates.length === 0) {
+    new Notice("No duplicate events found.");
+    return;
+  }
+
+  const responses = await executeBatch(plugin, duplicates.map(({ calendarId, event }) => buildEventDeleteRequest(calendarId, event.id!)));
+  const failedCount = responses.filter(response => response.status >= 400).length;
+  responses.forEach((response, index) => {
+    if (response.status >= 400) {
+      console.error(`Failed to delete duplicate event ${duplicates[index].event.id}: ${getBatchErrorMessage(response)}`);
+    }
+  });
+
+  new Notice(`Deleted ${duplicates.length - failedCount} duplicate events.`);
+}
+
+export async function deleteEventAndRemoveField(plugin: GoogleCalendarTaskSync, event: calendar_v3.Schema$Event, calendarId: string = 'primary'): Promise<void> {
   if (!event.id) {
     debugLog(plugin, "Event ID is missing. Skipping deletion.");
     return;
   }
 
-  const calendar = google.calendar({ version: "v3", auth: plugin.oAuth2Client });
+  const calendar = google.calendar({ version: "v3", auth: getOAuth2Client(plugin) });
 
   try {
     // Step 1: Delete the event from Google Calendar
     await calendar.events.delete({
-      calendarId: "primary",
+      calendarId: calendarId,
       eventId: event.id,
+      sendUpdates: plugin.settings.sendUpdates,
     });
 
     debugLog(plugin, `Deleted Google Calendar event: ${event.id}`);
 
-    // Step 2: Remove the `googleEventId` field from corresponding Obsidian files
-    await processVaultFilesForDeletion(plugin, event.id);
+    // Step 2: Remove the `googleEventId` field from the linked Obsidian file
+    const notePath = findNotePathByEventId(plugin, event.id);
+    if (notePath) {
+      updateSyncState(plugin, notePath, { eventId: undefined, calendarId: undefined, etag: undefined, contentHash: undefined });
+      const file = plugin.app.vault.getAbstractFileByPath(notePath);
+      if (file instanceof TFile) {
+        await removeGoogleEventIdField(plugin, file, event.id);
+      }
+    }
 
   } catch (error) {
     // Log the error and ensure no YAML modifications occur
@@ -103,39 +300,14 @@ export async function deleteEventAndRemoveField(plugin: GoogleCalendarTaskSync,
 
 
 
-export async function processVaultFilesForDeletion(plugin: GoogleCalendarTaskSync, googleEventId?: string): Promise<void> {
-  const files = plugin.app.vault.getMarkdownFiles();
-
-  for (const file of files) {
-    await removeGoogleEventIdField(plugin, file, googleEventId);
-  }
-}
-
-
 export async function removeGoogleEventIdField(plugin: GoogleCalendarTaskSync, file: TFile, googleEventId?: string): Promise<void> {
-  const content = await plugin.app.vault.read(file);
-  const lines = content.split("\n");
-  const yamlStartIndex = lines.indexOf("---");
-  const yamlEndIndex = lines.indexOf("---", yamlStartIndex + 1);
-
-  if (yamlStartIndex !== -1 && yamlEndIndex !== -1) {
-    const yamlContent = lines.slice(yamlStartIndex + 1, yamlEndIndex);
-    const updatedYamlContent = yamlContent.filter(line => {
-      if (googleEventId && line.includes(`googleEventId: ${googleEventId}`)) {
-        return false; // Remove specific googleEventId
-      }
-      return !line.trim().startsWith("googleEventId:");
-    });
-
-    if (yamlContent.length !== updatedYamlContent.length) {
-      const updatedContent = [
-        ...lines.slice(0, yamlStartIndex + 1),
-        ...updatedYamlContent,
-        ...lines.slice(yamlEndIndex),
-      ].join("\n");
+  const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter;
 
-      await plugin.app.vault.modify(file, updatedContent);
-      debugLog(plugin, `Updated file: ${file.path} - Removed googleEventId`);
-    }
+  // Only remove the link if it still points to the given event
+  if (!frontmatter?.googleEventId || (googleEventId && frontmatter.googleEventId !== googleEventId)) {
+    return;
   }
+
+  await updateFrontmatter(plugin, file, { googleEventId: undefined, googleCalendarId: undefined });
+  debugLog(plugin, `Updated file: ${file.path} - Removed googleEventId`);
 }
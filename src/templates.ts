@@ -0,0 +1,187 @@
+import { TFile } from "obsidian";
+import GoogleCalendarTaskSync from "./main";
+import { findMatchingFolderPairs, getFolderPairPathForFile, stripFrontmatter } from "./fileHelpers";
+import { formatDateValue, parseDateValue } from "./dateParser";
+import { getTimeZoneForTask } from "./timeZones";
+import { InlineTask } from "./inlineTasks";
+import { TaskData } from "./dataFetchers";
+
+// Values a template can use besides the frontmatter fields of the note
+export interface TemplateContext {
+  data: TaskData;             // Frontmatter of the note
+  file: TFile;
+  body: string;               // Note content without frontmatter
+  timeZone: string;           // Time zone of the task, for the `date` filter
+}
+
+export interface EventTemplates {
+  summary: string;
+  description: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}|]+?)\s*((?:\|[^}|]*)*)\}\}/g;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type TemplateFilter = (value: string, argument: string, context: TemplateContext) => string;
+
+const FILTERS: Record<string, TemplateFilter> = {
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+  capitalize: value => value.charAt(0).toUpperCase() + value.slice(1),
+  trim: value => value.trim(),
+  default: (value, argument) => value || argument,
+  prefix: (value, argument) => value ? `${argument}${value}` : '',
+  suffix: (value, argument) => value ? `${value}${argument}` : '',
+  truncate: (value, argument) => {
+    const length = Number(argument) || 50;
+    return value.length > length ? `${value.slice(0, length).trimEnd()}…` : value;
+  },
+  date: (value, argument, context) => value ? formatTemplateDate(value, argument || 'YYYY-MM-DD', context.timeZone) : '',
+};
+
+/**
+ * Returns the summary and description templates of the note: the ones of its folder pair,
+ * then the global ones. Empty templates keep the name field and rendered note body.
+ */
+export function getTemplatesForFile(plugin: GoogleCalendarTaskSync, file: TFile): EventTemplates {
+  const { folderPairSettings, summaryTemplate, descriptionTemplate } = plugin.settings;
+  const folderPairs = findMatchingFolderPairs(
+    plugin,
+    plugin.app.vault,
+    plugin.settings.taskFolderPath,
+    plugin.settings.searchFolderName,
+    plugin.settings.doneFolderName
+  );
+  const pairPath = getFolderPairPathForFile(folderPairs, file);
+  const pairSettings = pairPath ? folderPairSettings[pairPath] : undefined;
+
+  return {
+    summary: pairSettings?.summaryTemplate || summaryTemplate || '',
+    description: pairSettings?.descriptionTemplate || descriptionTemplate || '',
+  };
+}
+
+// Inline tasks use the lines indented below them as body
+export async function buildTemplateContext(plugin: GoogleCalendarTaskSync, taskData: TaskData, file: TFile, inlineTask?: InlineTask): Promise<TemplateContext> {
+  const content = inlineTask ? inlineTask.details : await plugin.app.vault.cachedRead(file);
+  return {
+    data: taskData,
+    file,
+    body: stripFrontmatter(content).trim(),
+    timeZone: getTimeZoneForTask(plugin, taskData),
+  };
+}
+
+/**
+ * Fills the `{{placeholder|filter:argument}}` placeholders of a template. Placeholders are
+ * frontmatter fields, `file`, `folder`, `path`, `body` or `section:Heading`, filters run
+ * from left to right.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string, filters: string) => {
+    let value = resolvePlaceholder(name, context);
+
+    for (const filter of filters.split('|').slice(1)) {
+      const separatorIndex = filter.indexOf(':');
+      const filterName = (separatorIndex === -1 ? filter : filter.slice(0, separatorIndex)).trim();
+      const argument = separatorIndex === -1 ? '' : filter.slice(separatorIndex + 1).replace(/^\s*(["'])(.*)\1\s*$/, '$2');
+
+      if (!FILTERS[filterName]) {
+        throw new Error(`Unknown template filter "${filterName}" in {{${name}${filters}}}`);
+      }
+      value = FILTERS[filterName](value, argument, context);
+    }
+
+    return value;
+  });
+}
+
+// Renders a one-line summary, placeholders without a value leave no empty brackets or double spaces
+export function renderSummaryTemplate(template: string, context: TemplateContext): string {
+  return renderTemplate(template, context)
+    .replace(/\(\s*\)|\[\s*\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function resolvePlaceholder(name: string, context: TemplateContext): string {
+  if (name.startsWith('section:')) {
+    return getSection(context.body, name.slice('section:'.length).trim());
+  }
+
+  if (name in context.data) {
+    return formatTemplateValue(context.data[name]);
+  }
+
+  switch (name) {
+    case 'file':
+      return context.file.basename;
+    case 'folder':
+      return context.file.parent?.name ?? '';
+    case 'path':
+      return context.file.path;
+    case 'body':
+      return context.body;
+    default:
+      return '';
+  }
+}
+
+function formatTemplateValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatTemplateValue).filter(Boolean).join(', ');
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Content below the heading up to the next heading of the same or a higher level
+function getSection(body: string, heading: string): string {
+  const lines = body.split(/\r?\n/);
+  const start = lines.findIndex(line => line.replace(/^#+\s+/, '').trim().toLowerCase() === heading.toLowerCase() && /^#+\s/.test(line));
+  if (start === -1) {
+    return '';
+  }
+
+  const level = lines[start].match(/^#+/)![0].length;
+  const end = lines.findIndex((line, index) => index > start && /^#+\s/.test(line) && line.match(/^#+/)![0].length <= level);
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n').trim();
+}
+
+// Formats a date value with the tokens YYYY, MM, MMM, DD, ddd, HH and mm
+function formatTemplateDate(value: string, format: string, timeZone: string): string {
+  let wallClock;
+  try {
+    wallClock = parseDateValue(value, timeZone);
+  } catch {
+    return value;
+  }
+
+  const [year, month, day] = wallClock.date.split('-');
+  const [hours, minutes] = (wallClock.time ?? '').split(':');
+  const weekday = new Date(`${wallClock.date}T00:00:00Z`).getUTCDay();
+
+  if (!wallClock.time && /HH|mm/.test(format)) {
+    // All-day values have no time to format
+    format = format.replace(/[\sT,]*HH(:mm)?/, '');
+  }
+
+  const tokens: Record<string, string> = {
+    YYYY: year,
+    MMM: MONTH_NAMES[Number(month) - 1],
+    MM: month,
+    DD: day,
+    ddd: WEEKDAY_NAMES[weekday],
+    HH: hours,
+    mm: minutes,
+  };
+  const formatted = format.replace(/YYYY|MMM|MM|DD|ddd|HH|mm/g, token => tokens[token] ?? '');
+  return formatted || formatDateValue(wallClock);
+}
@@ -0,0 +1,167 @@
+import { calendar_v3 } from "googleapis";
+import GoogleCalendarTaskSync from "./main";
+import { TaskData } from "./dataFetchers";
+
+// A date as written in a note, without a UTC conversion that could shift it by a day
+export interface WallClockDate {
+  date: string;               // YYYY-MM-DD
+  time?: string;              // HH:mm:ss, missing for all-day values
+}
+
+const DATE_VALUE_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function getDefaultTimeZone(plugin: GoogleCalendarTaskSync): string {
+  return plugin.settings.defaultTimeZone || getSystemTimeZone();
+}
+
+// Time zone of a task: the note's `timezone` field, then the default time zone setting, then the system's
+export function getTimeZoneForTask(plugin: GoogleCalendarTaskSync, taskData: TaskData): string {
+  const mapping = plugin.settings.fieldMappings.timezone;
+  const timeZone = (mapping && taskData?.[mapping]) || getDefaultTimeZone(plugin);
+
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone "${timeZone}"`);
+  }
+  return timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a frontmatter date value as wall-clock date and time. Values with an explicit offset
+ * (e.g. `2026-10-20T14:00Z`) are converted to the wall-clock time of the given time zone.
+ */
+export function parseWallClockDate(value: unknown, timeZone: string): WallClockDate {
+  if (value instanceof Date) {
+    return toWallClockDate(value, timeZone);
+  }
+
+  const text = String(value ?? '').trim();
+  const match = text.match(DATE_VALUE_PATTERN);
+  if (match && !isValidDateValue(match)) {
+    throw new Error(`Unparseable date value (${value})`);
+  }
+
+  if (match && !match[5]) {
+    const [, date, hours, minutes, seconds] = match;
+    return hours === undefined
+      ? { date }
+      : { date, time: `${hours.padStart(2, '0')}:${minutes}:${seconds ?? '00'}` };
+  }
+
+  // Only ISO values with an offset are converted, anything else is rejected instead of guessed
+  const instant = match ? new Date(text) : undefined;
+  if (!instant || isNaN(instant.getTime())) {
+    throw new Error(`Unparseable date value (${value})`);
+  }
+  return toWallClockDate(instant, timeZone);
+}
+
+// The pattern lets through dates and times the calendar doesn't have, like `2026-02-30` or `25:00`
+function isValidDateValue([, date, hours, minutes, seconds]: RegExpMatchArray): boolean {
+  const [year, month, day] = date.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const isValidDate = month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth;
+  return isValidDate && (hours === undefined || (Number(hours) < 24 && Number(minutes) < 60 && Number(seconds ?? 0) < 60));
+}
+
+// Wall-clock date and time of the instant in the time zone
+export function toWallClockDate(instant: Date, timeZone: string): WallClockDate {
+  const parts = getZonedParts(instant, timeZone);
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`,
+  };
+}
+
+/**
+ * Builds the Google start or end of a wall-clock date. Timed values are sent as wall-clock
+ * time with their time zone, so recurring events keep their time across daylight saving changes.
+ */
+export function toEventDateTime(wallClock: WallClockDate, timeZone: string): calendar_v3.Schema$EventDateTime {
+  if (!wallClock.time) {
+    return { date: wallClock.date };
+  }
+  return { dateTime: `${wallClock.date}T${wallClock.time}`, timeZone };
+}
+
+// The instant of a Google start or end, `dateTime` values without offset are in their `timeZone`
+export function getEventInstant(eventDateTime: calendar_v3.Schema$EventDateTime, fallbackTimeZone: string): Date {
+  const dateTime = eventDateTime.dateTime!;
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(dateTime)) {
+    return new Date(dateTime);
+  }
+
+  const wallClock = parseWallClockDate(dateTime, fallbackTimeZone);
+  return zonedTimeToInstant(wallClock, eventDateTime.timeZone || fallbackTimeZone);
+}
+
+// Formats the instant as `YYYY-MM-DDTHH:mm` in the time zone, as written into notes
+export function formatDateTimeInTimeZone(instant: Date, timeZone: string): string {
+  const { date, time } = toWallClockDate(instant, timeZone);
+  return `${date}T${time!.slice(0, 5)}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+// Adds minutes to a wall-clock time, the time zone applies the daylight saving offset later
+export function addMinutes(wallClock: WallClockDate, minutes: number): WallClockDate {
+  const [year, month, day] = wallClock.date.split('-').map(Number);
+  const [hour, minute, second] = (wallClock.time ?? '00:00:00').split(':').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day, hour, minute + minutes, second));
+  const [date, time] = shifted.toISOString().split('T');
+  return { date, time: time.slice(0, 8) };
+}
+
+function zonedTimeToInstant(wallClock: WallClockDate, timeZone: string): Date {
+  const [year, month, day] = wallClock.date.split('-').map(Number);
+  const [hour, minute, second] = (wallClock.time ?? '00:00:00').split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // The offset at the guessed instant can differ from the one at the result around a DST change
+  let instant = wallClockAsUtc - getTimeZoneOffset(new Date(wallClockAsUtc), timeZone);
+  instant = wallClockAsUtc - getTimeZoneOffset(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+// Offset of the time zone from UTC at the instant, in milliseconds
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = getZonedParts(instant, timeZone);
+  const zonedAsUtc = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second)
+  );
+  return zonedAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+function getZonedParts(instant: Date, timeZone: string): Record<string, string> {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(instant).forEach(({ type, value }) => parts[type] = value);
+  return parts;
+}